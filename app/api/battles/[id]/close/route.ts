@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { closeBattle } from "@/lib/battleStore";
+
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  const battle = closeBattle(params.id);
+  if (!battle) {
+    return NextResponse.json({ error: `No battle with id ${params.id}` }, { status: 404 });
+  }
+  return NextResponse.json({ battle });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { voteBattle } from "@/lib/battleStore";
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const { side } = (await request.json().catch(() => ({}))) as { side?: unknown };
+  if (side !== 0 && side !== 1) {
+    return NextResponse.json({ error: "Vote for side 0 or 1" }, { status: 400 });
+  }
+  const battle = voteBattle(params.id, side);
+  if (!battle) {
+    return NextResponse.json({ error: `No battle with id ${params.id}` }, { status: 404 });
+  }
+  return NextResponse.json({ battle });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { createBattle, listBattles } from "@/lib/battleStore";
+
+// battles change with every vote, so never serve them from the build cache
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ battles: listBattles() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const battle = createBattle(await request.json());
+    return NextResponse.json({ battle }, { status: 201 });
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+}
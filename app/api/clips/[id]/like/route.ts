@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { likeClip } from "@/lib/clipStore";
+
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  const clip = likeClip(params.id);
+  if (!clip) {
+    return NextResponse.json({ error: `No clip with id ${params.id}` }, { status: 404 });
+  }
+  return NextResponse.json({ clip });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { publishClip } from "@/lib/clipStore";
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const clip = publishClip(await request.json(), params.id);
+    if (!clip) {
+      return NextResponse.json({ error: `No clip with id ${params.id}` }, { status: 404 });
+    }
+    return NextResponse.json({ clip }, { status: 201 });
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+}
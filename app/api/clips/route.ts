@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { listClips, publishClip } from "@/lib/clipStore";
+
+// the feed changes with every post and like, so never serve it from the build cache
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ clips: listClips() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const clip = publishClip(await request.json());
+    return NextResponse.json({ clip }, { status: 201 });
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import clsx from "clsx";
+import { ACHIEVEMENTS, type Progress, type ProgressStats } from "@/lib/progression";
+
+type AchievementsPanelProps = {
+  stats: ProgressStats;
+  unlocked: Progress["achievements"];
+};
+
+export default function AchievementsPanel({ stats, unlocked }: AchievementsPanelProps) {
+  const count = ACHIEVEMENTS.filter((achievement) => unlocked[achievement.id] !== undefined).length;
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/10 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm uppercase tracking-[0.35em] text-white/60">Achievements</h2>
+        <span className="text-xs text-white/60">
+          {count} / {ACHIEVEMENTS.length}
+        </span>
+      </div>
+      <ul className="mt-4 grid gap-2 sm:grid-cols-2">
+        {ACHIEVEMENTS.map((achievement) => {
+          const unlockedAt = unlocked[achievement.id];
+          return (
+            <li
+              key={achievement.id}
+              title={unlockedAt ? `Unlocked ${new Date(unlockedAt).toLocaleDateString()}` : undefined}
+              className={clsx(
+                "rounded-xl border px-3 py-2",
+                unlockedAt ? "border-neo-yellow/60 bg-neo-yellow/10" : "border-white/10 bg-black/20 opacity-60"
+              )}
+            >
+              <p className="text-xs font-semibold text-white">{achievement.name}</p>
+              <p className="text-[10px] text-white/50">{achievement.description}</p>
+            </li>
+          );
+        })}
+      </ul>
+      <p className="mt-3 text-[10px] uppercase tracking-[0.2em] text-white/40">
+        {stats.hits} hits · best streak {stats.bestStreak} · {stats.clipsShared} shared ·{" "}
+        {stats.remixes} remixes
+      </p>
+    </div>
+  );
+}
@@ -2,7 +2,138 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
-import { AudioEngine, DEFAULT_CLIPS, PAD_META, type ActiveClip, type LoopClip, type LoopEvent, type PadId } from "./AudioEngine";
+import {
+  AudioEngine,
+  BAR_OPTIONS,
+  DEFAULT_CLIPS,
+  GRID_STEPS,
+  PAD_META,
+  clipSteps,
+  createDefaultMixer,
+  type ActiveClip,
+  type ActiveSong,
+  type BarCount,
+  type ClipLevel,
+  type LoopClip,
+  type LoopEvent,
+  type MixerSettings,
+  type PadId
+} from "./AudioEngine";
+import AchievementsPanel from "./AchievementsPanel";
+import BattlePanel, { type BattleLive } from "./BattlePanel";
+import BindingsPanel from "./BindingsPanel";
+import CameraEffectsCanvas from "./CameraEffectsCanvas";
+import ChallengePanel from "./ChallengePanel";
+import FeedControls from "./FeedControls";
+import GestureOverlay from "./GestureOverlay";
+import JamPanel, { type JamActivity } from "./JamPanel";
+import KitPanel from "./KitPanel";
+import MidiPanel from "./MidiPanel";
+import MixerPanel from "./MixerPanel";
+import RecordPanel from "./RecordPanel";
+import RemixTree from "./RemixTree";
+import ScaleStrip from "./ScaleStrip";
+import SessionPanel from "./SessionPanel";
+import ShareDialog from "./ShareDialog";
+import SoundDesignPanel from "./SoundDesignPanel";
+import SongPanel from "./SongPanel";
+import StepGrid from "./StepGrid";
+import StepRing from "./StepRing";
+import {
+  BATTLE_WIN_POINTS,
+  battleSong,
+  battleTurns,
+  loadBattleVotes,
+  saveBattleVotes,
+  type Battle,
+  type BattleSide
+} from "@/lib/battle";
+import { closeBattle, createBattle, fetchBattles, voteBattle } from "@/lib/battleApi";
+import { CAMERA_PRESETS, type CameraPreset } from "@/lib/cameraEffects";
+import { fetchClips, likeClip, publishClip } from "@/lib/clipApi";
+import { addOwnClipId, formatClipIssue, loadClips, loadOwnClipIds, saveClips } from "@/lib/clipSchema";
+import { downloadBlob, fileSlug } from "@/lib/download";
+import {
+  BPM_NUDGE,
+  DEFAULT_BINDINGS,
+  InputBindingsController,
+  inputFor,
+  keyLabel,
+  loadInputBindings,
+  saveInputBindings,
+  type BindingTarget,
+  type InputBindings,
+  type TransportAction
+} from "@/lib/inputBindings";
+import {
+  DEFAULT_FEED_FILTER,
+  FEED_PAGE_SIZE,
+  feedAuthors,
+  queryFeed,
+  type FeedFilter,
+  type FeedSort
+} from "@/lib/feed";
+import {
+  DEFAULT_GROOVE,
+  DEFAULT_QUANTIZE,
+  DEFAULT_SWING,
+  GROOVES,
+  MAX_SWING,
+  MIN_SWING,
+  QUANTIZE_OPTIONS,
+  recordedEvent,
+  type GrooveId,
+  type QuantizeResolution
+} from "@/lib/groove";
+import { deleteKit, listKits, saveKit, type SampleKit } from "@/lib/kits";
+import { clipToMidi, midiToClip, type MidiFormat } from "@/lib/midi";
+import {
+  JAM_LEAD,
+  JAM_SYNC_INTERVAL,
+  JamSession,
+  defaultJamUrl,
+  type JamHit,
+  type JamPeer,
+  type JamStatus
+} from "@/lib/jam";
+import { remixTree } from "@/lib/lineage";
+import {
+  EMPTY_STATS,
+  STARTING_POINTS,
+  loadProgress,
+  newAchievements,
+  saveProgress,
+  type Achievement,
+  type Progress,
+  type ProgressStats
+} from "@/lib/progression";
+import {
+  CHALLENGE_BONUS,
+  TIMING_RATINGS,
+  challengeResult,
+  createChallenge,
+  finishChallenge,
+  rateGridTap,
+  scoreChallengeTap,
+  tapPoints,
+  ticksToSeconds,
+  type Challenge,
+  type TimingRating
+} from "@/lib/rhythm";
+import type { MidiControlTarget } from "@/lib/midiInput";
+import { DEFAULT_KEY, DEFAULT_SCALE, type NoteName, type ScaleId } from "@/lib/music";
+import { loadScenes, saveScenes, toSceneLayer, type Scene } from "@/lib/scenes";
+import type { PerformanceScene } from "@/lib/recording";
+import { SHARE_PARAM, clipShareUrl, readSharedClip } from "@/lib/share";
+import { DEFAULT_SKIN, SKINS, resolveSkin } from "@/lib/skins";
+import { createSection, createSong, loadSong, saveSong, type Song } from "@/lib/song";
+import {
+  BUILT_IN_SYNTH_KITS,
+  findSynthKit,
+  loadUserSynthKits,
+  saveUserSynthKits,
+  type SynthKit
+} from "@/lib/synthKits";
 import clsx from "clsx";
 
 type Burst = {
@@ -10,56 +141,21 @@ type Burst = {
   x: number;
   y: number;
   color: string;
-};
-
-type CameraFilter = {
-  id: string;
-  name: string;
-  css: string;
-  description: string;
+  at: number;
 };
 
 const padOrder: PadId[] = ["kick", "snare", "hat", "bass", "lead", "fx"];
 
-const cameraFilters: CameraFilter[] = [
-  {
-    id: "aurora",
-    name: "Aurora Bloom",
-    css: "contrast(1.15) saturate(1.2) hue-rotate(22deg)",
-    description: "Glowing magenta waves"
-  },
-  {
-    id: "neon",
-    name: "Neon Vapor",
-    css: "contrast(1.25) saturate(1.35) hue-rotate(110deg)",
-    description: "Electric cyan haze"
-  },
-  {
-    id: "void",
-    name: "Void Night",
-    css: "contrast(1.4) saturate(1.4) brightness(0.82)",
-    description: "Deep noir pulses"
-  },
-  {
-    id: "solar",
-    name: "Solar Flare",
-    css: "contrast(1.1) saturate(1.8) hue-rotate(-35deg)",
-    description: "Golden energy trails"
-  }
-];
-
-const skinUnlocks = [
-  { id: "aurora", name: "Aurora Bloom", threshold: 0 },
-  { id: "nebula", name: "Nebula Nova", threshold: 400 },
-  { id: "nova", name: "Nova Prism", threshold: 800 },
-  { id: "hyper", name: "Hyper Flux", threshold: 1500 }
-];
+const SKETCH_CLIP_ID = "live-sketch";
+const BURST_MS = 420;
 
 const randomColor = () =>
   ["#ff6ac1", "#5ee7ff", "#ffd166", "#9d4edd", "#f72585", "#4cc9f0"][
     Math.floor(Math.random() * 6)
   ];
 
+const pickColor = (colors: string[]) => colors[Math.floor(Math.random() * colors.length)];
+
 const uid = () => {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
     return crypto.randomUUID();
@@ -85,33 +181,107 @@ export default function ArBeatPad() {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const padRef = useRef<HTMLDivElement | null>(null);
+  const effectsCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const midiInputRef = useRef<HTMLInputElement | null>(null);
+  const padButtonRefs = useRef<Partial<Record<PadId, HTMLButtonElement | null>>>({});
   const engineRef = useRef<AudioEngine>();
   if (!engineRef.current) {
     engineRef.current = new AudioEngine();
   }
   const engine = engineRef.current;
+  const activeClipsRef = useRef<ActiveClip[]>([]);
+  const activeSongRef = useRef<ActiveSong | null>(null);
+  const activeBattleRef = useRef<ActiveSong | null>(null);
+  // taps land faster than renders, so scoring reads and writes the run through a ref
+  const challengeRef = useRef<Challenge | null>(null);
+  const challengeTimerRef = useRef<number>();
+  const editingClipIdRef = useRef<string | null>(null);
+  const jamRef = useRef<JamSession | null>(null);
+  const inputRef = useRef<InputBindingsController | null>(null);
+  const remoteHitRef = useRef<(hit: JamHit, peer: JamPeer | null) => void>(() => undefined);
 
   const [audioReady, setAudioReady] = useState(false);
   const [cameraReady, setCameraReady] = useState(false);
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [bursts, setBursts] = useState<Burst[]>([]);
   const [bpm, setBpm] = useState(104);
+  const [loopBars, setLoopBars] = useState<BarCount>(1);
+  const [musicalKey, setMusicalKey] = useState<NoteName>(DEFAULT_KEY);
+  const [scale, setScale] = useState<ScaleId>(DEFAULT_SCALE);
+  const [mixer, setMixer] = useState<MixerSettings>(createDefaultMixer);
+  const [swing, setSwing] = useState(DEFAULT_SWING);
+  const [groove, setGroove] = useState<GrooveId>(DEFAULT_GROOVE);
+  const [quantize, setQuantize] = useState<QuantizeResolution>(DEFAULT_QUANTIZE);
+  const [kits, setKits] = useState<SampleKit[]>([]);
+  const [kitId, setKitId] = useState<string | null>(null);
+  const [userSynthKits, setUserSynthKits] = useState<SynthKit[]>([]);
+  const [userSynthKitsLoaded, setUserSynthKitsLoaded] = useState(false);
+  const [synthKit, setSynthKit] = useState<SynthKit>(BUILT_IN_SYNTH_KITS[0]);
+  const [synthKitDirty, setSynthKitDirty] = useState(false);
   const [filterValue, setFilterValue] = useState(18000);
+  const [handPads, setHandPads] = useState(false);
+  const [handFilter, setHandFilter] = useState(false);
+  const [inputBindings, setInputBindings] = useState<InputBindings>(DEFAULT_BINDINGS);
+  const [inputBindingsLoaded, setInputBindingsLoaded] = useState(false);
+  const [learnBinding, setLearnBinding] = useState<BindingTarget | null>(null);
+  const [gamepads, setGamepads] = useState<string[]>([]);
   const [reverbValue, setReverbValue] = useState(0.28);
-  const [points, setPoints] = useState(120);
+  const [points, setPoints] = useState(STARTING_POINTS);
   const [streak, setStreak] = useState(0);
-  const [cameraFilter, setCameraFilter] = useState<CameraFilter>(cameraFilters[0]);
+  const [stats, setStats] = useState<ProgressStats>(EMPTY_STATS);
+  const [achievements, setAchievements] = useState<Progress["achievements"]>({});
+  const [progressLoaded, setProgressLoaded] = useState(false);
+  const [achievementToast, setAchievementToast] = useState<Achievement | null>(null);
+  const [lastTap, setLastTap] = useState<{ rating: TimingRating; at: number } | null>(null);
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [finishedChallenge, setFinishedChallenge] = useState<Challenge | null>(null);
+  const [cameraPreset, setCameraPreset] = useState<CameraPreset>(CAMERA_PRESETS[0]);
+  const [webglFailed, setWebglFailed] = useState(false);
   const [currentEvents, setCurrentEvents] = useState<LoopEvent[]>([]);
   const [sharedClips, setSharedClips] = useState<LoopClip[]>(DEFAULT_CLIPS);
-  const [activeClip, setActiveClip] = useState<ActiveClip | null>(null);
-  const [activeSkin, setActiveSkin] = useState(skinUnlocks[0].id);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [sharingClip, setSharingClip] = useState<LoopClip | null>(null);
+  const [incomingClip, setIncomingClip] = useState<LoopClip | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [remixSource, setRemixSource] = useState<LoopClip | null>(null);
+  const [openTreeId, setOpenTreeId] = useState<string | null>(null);
+  const [feedSort, setFeedSort] = useState<FeedSort>("newest");
+  const [feedFilter, setFeedFilter] = useState<FeedFilter>(DEFAULT_FEED_FILTER);
+  const [feedLimit, setFeedLimit] = useState(FEED_PAGE_SIZE);
+  const [jamStatus, setJamStatus] = useState<JamStatus>("closed");
+  const [jamPeers, setJamPeers] = useState<JamPeer[]>([]);
+  const [jamPeerId, setJamPeerId] = useState<string | null>(null);
+  const [jamActivity, setJamActivity] = useState<JamActivity>({});
+  const [battles, setBattles] = useState<Battle[]>([]);
+  const [battleVotes, setBattleVotes] = useState<Record<string, BattleSide>>({});
+  const [battleVotesLoaded, setBattleVotesLoaded] = useState(false);
+  const [battleLive, setBattleLive] = useState<BattleLive | null>(null);
+  const [activeClips, setActiveClips] = useState<ActiveClip[]>([]);
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [scenesLoaded, setScenesLoaded] = useState(false);
+  const [song, setSong] = useState<Song>(createSong);
+  const [songLoaded, setSongLoaded] = useState(false);
+  const [songPlaying, setSongPlaying] = useState(false);
+  const [renderingSong, setRenderingSong] = useState(false);
+  const [activeSkin, setActiveSkin] = useState(DEFAULT_SKIN.id);
   const [loopTitle, setLoopTitle] = useState("");
   const [showHud, setShowHud] = useState(true);
+  const [renderingClipId, setRenderingClipId] = useState<string | null>(null);
+  const [midiFormat, setMidiFormat] = useState<MidiFormat>(1);
 
-  const unlockedSkins = useMemo(
-    () => skinUnlocks.filter((skin) => points >= skin.threshold),
-    [points]
+  const feedClips = useMemo(
+    () => queryFeed(sharedClips, feedFilter, feedSort),
+    [sharedClips, feedFilter, feedSort]
   );
+  const authors = useMemo(() => feedAuthors(sharedClips), [sharedClips]);
+
+  const skin = useMemo(() => resolveSkin(activeSkin, points), [activeSkin, points]);
+  // shader effects take over from the CSS filter wherever WebGL works
+  const effectsOn = cameraReady && !webglFailed;
+
+  const recordStat = useCallback((stat: keyof ProgressStats, amount = 1) => {
+    setStats((prev) => ({ ...prev, [stat]: prev[stat] + amount }));
+  }, []);
 
   useEffect(() => {
     let current: MediaStream | null = null;
@@ -148,23 +318,136 @@ export default function ArBeatPad() {
   }, []);
 
   useEffect(() => {
-    const stored = localStorage.getItem("pulsecanvas-clips");
-    if (stored) {
+    const { clips, quarantined } = loadClips();
+    quarantined.forEach(({ issues }) => issues.forEach((issue) => console.error(formatClipIssue(issue))));
+    setQuarantinedCount(quarantined.length);
+    setSharedClips([...DEFAULT_CLIPS, ...clips]);
+
+    // the local copy shows straight away, the server feed replaces it once it arrives;
+    // clips the server has never seen (imports, saves made offline) stay on top of it
+    fetchClips()
+      .then((feed) => {
+        const ids = new Set(feed.map((clip) => clip.id));
+        setSharedClips((prev) => [
+          ...feed,
+          ...prev.filter((clip) => !ids.has(clip.id) && !DEFAULT_CLIPS.some((c) => c.id === clip.id))
+        ]);
+      })
+      .catch((err) => console.error(err));
+  }, []);
+
+  useEffect(() => {
+    saveClips(sharedClips.filter((clip) => !DEFAULT_CLIPS.find((c) => c.id === clip.id)));
+  }, [sharedClips]);
+
+  useEffect(() => {
+    const importFromHash = () => {
+      if (!window.location.hash.includes(`${SHARE_PARAM}=`)) return;
       try {
-        const parsed = JSON.parse(stored) as LoopClip[];
-        setSharedClips([...DEFAULT_CLIPS, ...parsed]);
-      } catch {
-        setSharedClips(DEFAULT_CLIPS);
+        const clip = readSharedClip(window.location.hash);
+        if (clip) {
+          setSharedClips((prev) => (prev.some((item) => item.id === clip.id) ? prev : [clip, ...prev]));
+          setIncomingClip(clip);
+          setShareError(null);
+        }
+      } catch (err) {
+        console.error(err);
+        setShareError((err as Error).message);
       }
-    }
+      // drop the fragment so a reload does not import the clip again
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    };
+    importFromHash();
+    window.addEventListener("hashchange", importFromHash);
+    return () => window.removeEventListener("hashchange", importFromHash);
   }, []);
 
   useEffect(() => {
-    localStorage.setItem(
-      "pulsecanvas-clips",
-      JSON.stringify(sharedClips.filter((clip) => !DEFAULT_CLIPS.find((c) => c.id === clip.id)))
-    );
-  }, [sharedClips]);
+    setScenes(loadScenes());
+    setScenesLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!scenesLoaded) return;
+    saveScenes(scenes);
+  }, [scenes, scenesLoaded]);
+
+  useEffect(() => {
+    setSong(loadSong());
+    setSongLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    setUserSynthKits(loadUserSynthKits());
+    setUserSynthKitsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!userSynthKitsLoaded) return;
+    saveUserSynthKits(userSynthKits);
+  }, [userSynthKits, userSynthKitsLoaded]);
+
+  useEffect(() => {
+    listKits()
+      .then(setKits)
+      .catch((err) => console.error(err));
+  }, []);
+
+  useEffect(() => {
+    if (!songLoaded) return;
+    saveSong(song);
+  }, [song, songLoaded]);
+
+  useEffect(() => {
+    const progress = loadProgress();
+    setPoints(progress.points);
+    setStreak(progress.streak);
+    setActiveSkin(progress.skinId);
+    setStats(progress.stats);
+    setAchievements(progress.achievements);
+    setProgressLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    // saving the defaults before the stored progress is applied would wipe it
+    if (!progressLoaded) return;
+    saveProgress({ points, streak, skinId: activeSkin, stats, achievements });
+  }, [achievements, activeSkin, points, progressLoaded, stats, streak]);
+
+  useEffect(() => {
+    setStats((prev) => (streak > prev.bestStreak ? { ...prev, bestStreak: streak } : prev));
+  }, [streak]);
+
+  useEffect(() => {
+    const earned = newAchievements(stats, achievements);
+    if (earned.length === 0) return;
+    const unlockedAt = Date.now();
+    setAchievements((prev) => ({
+      ...prev,
+      ...Object.fromEntries(earned.map((achievement) => [achievement.id, unlockedAt]))
+    }));
+    setPoints((prev) => prev + earned.reduce((sum, achievement) => sum + achievement.reward, 0));
+    setAchievementToast(earned[earned.length - 1]);
+  }, [achievements, stats]);
+
+  useEffect(() => {
+    if (!achievementToast) return;
+    const timer = setTimeout(() => setAchievementToast(null), 3200);
+    return () => clearTimeout(timer);
+  }, [achievementToast]);
+
+  useEffect(() => {
+    setBattleVotes(loadBattleVotes());
+    setBattleVotesLoaded(true);
+    fetchBattles()
+      .then(setBattles)
+      .catch((err) => console.error(err));
+  }, []);
+
+  useEffect(() => {
+    if (!battleVotesLoaded) return;
+    saveBattleVotes(battleVotes);
+  }, [battleVotes, battleVotesLoaded]);
 
   const ensureAudio = useCallback(async () => {
     if (audioReady) return;
@@ -172,37 +455,149 @@ export default function ArBeatPad() {
     setAudioReady(true);
   }, [audioReady, engine]);
 
-  const addBurst = useCallback((event: React.PointerEvent<HTMLButtonElement>) => {
+  // the ref is the source of truth so several launches in one handler see each other
+  const updateLayers = useCallback((update: (prev: ActiveClip[]) => ActiveClip[]) => {
+    activeClipsRef.current = update(activeClipsRef.current);
+    setActiveClips(activeClipsRef.current);
+  }, []);
+
+  const launchClip = useCallback(
+    (clip: LoopClip, level?: ClipLevel) => {
+      const running = activeClipsRef.current.find((item) => item.id === clip.id);
+      if (running) {
+        engine.stopClip(running);
+      }
+      const instance = engine.createClip(clip, level);
+      updateLayers((prev) => [...prev.filter((item) => item.id !== clip.id), instance]);
+      return instance;
+    },
+    [engine, updateLayers]
+  );
+
+  const updateChallenge = useCallback((next: Challenge | null) => {
+    challengeRef.current = next;
+    setChallenge(next);
+  }, []);
+
+  const stopLayer = useCallback(
+    (layer: ActiveClip) => {
+      engine.stopClip(layer);
+      updateLayers((prev) => prev.filter((item) => item.id !== layer.id));
+    },
+    [engine, updateLayers]
+  );
+
+  const stopAllLayers = useCallback(() => {
+    activeClipsRef.current.forEach((layer) => engine.stopClip(layer));
+    updateLayers(() => []);
+  }, [engine, updateLayers]);
+
+  const addBurst = useCallback((padId: PadId, point?: { x: number; y: number }, color?: string) => {
     if (!padRef.current) return;
     const bounds = padRef.current.getBoundingClientRect();
+    const button = padButtonRefs.current[padId]?.getBoundingClientRect();
+    const origin =
+      point ?? (button && { x: button.left + button.width / 2, y: button.top + button.height / 2 });
+    if (!origin) return;
     const burst: Burst = {
       id: uid(),
-      x: event.clientX - bounds.left,
-      y: event.clientY - bounds.top,
-      color: randomColor()
+      x: origin.x - bounds.left,
+      y: origin.y - bounds.top,
+      color: color ?? pickColor(skin.bursts),
+      at: Date.now()
     };
     setBursts((prev) => [...prev.slice(-10), burst]);
     setTimeout(() => {
       setBursts((prev) => prev.filter((b) => b.id !== burst.id));
-    }, 420);
-  }, []);
+    }, BURST_MS);
+  }, [skin]);
+
+  // the pad ring as the recorder redraws it, measured off the live layout each frame
+  const captureScene = useCallback((): PerformanceScene | null => {
+    const view = containerRef.current?.getBoundingClientRect();
+    const ring = padRef.current?.getBoundingClientRect();
+    if (!view || !ring) return null;
+    const now = Date.now();
+    return {
+      width: view.width,
+      height: view.height,
+      camera: effectsOn ? effectsCanvasRef.current : cameraReady ? videoRef.current : null,
+      filter: effectsOn ? "none" : cameraPreset.css,
+      ring: {
+        x: ring.left - view.left + ring.width / 2,
+        y: ring.top - view.top + ring.height / 2,
+        radius: ring.width / 2
+      },
+      pads: padOrder.flatMap((padId, index) => {
+        const button = padButtonRefs.current[padId]?.getBoundingClientRect();
+        if (!button) return [];
+        return [
+          {
+            x: button.left - view.left + button.width / 2,
+            y: button.top - view.top + 32,
+            radius: 24,
+            label: PAD_META[padId].label,
+            color: skin.bursts[index % skin.bursts.length]
+          }
+        ];
+      }),
+      // each burst is a 24px dot placed by its top left corner
+      bursts: bursts.map((burst) => ({
+        x: ring.left - view.left + burst.x + 12,
+        y: ring.top - view.top + burst.y + 12,
+        color: burst.color,
+        age: Math.min(1, (now - burst.at) / BURST_MS)
+      }))
+    };
+  }, [bursts, cameraPreset.css, cameraReady, effectsOn, skin]);
 
   const handlePadTrigger = useCallback(
-    async (padId: PadId, event: React.PointerEvent<HTMLButtonElement>) => {
+    async (padId: PadId, velocity = 1, point?: { x: number; y: number }, pitch?: string) => {
       await ensureAudio();
-      const { tick } = engine.triggerPad(padId, 1);
-      setCurrentEvents((prev) => [...prev, { tick, padId, velocity: 1 }]);
-      setPoints((prev) => prev + 5 + Math.floor(streak / 3));
-      setStreak((prev) => prev + 1);
-      addBurst(event);
+      const jam = jamRef.current;
+      const lead = jam?.getTransport() ? JAM_LEAD : 0;
+      // steps count from the bar the layer being recorded over started on
+      const layers = activeClipsRef.current;
+      const recording = layers.find((layer) => layer.id === editingClipIdRef.current) ?? layers[0];
+      const placed = engine.triggerPad(padId, velocity, pitch, lead, recording?.startTicks);
+      const { tick, offset, ticks, tapped } = placed;
+      setCurrentEvents((prev) => [...prev, recordedEvent(padId, velocity, placed, pitch)]);
+      if (jam) {
+        jam.sendHit({ padId, ticks, step: tick, offset, velocity, pitch });
+        const selfId = jam.getPeerId();
+        if (selfId) setJamActivity((prev) => ({ ...prev, [selfId]: { padId, at: Date.now() } }));
+      }
+      // during a challenge the tap is rated against the clip, otherwise against the grid
+      const timing = engine.getTransport();
+      const running = challengeRef.current;
+      const scored = running ? scoreChallengeTap(running, padId, tapped, timing) : null;
+      if (scored) updateChallenge(scored.challenge);
+      const { rating } = scored?.tap ?? rateGridTap(tapped, { ...timing, quantize, stepsPerBar: GRID_STEPS });
+      const broken = rating === "miss" || (scored?.missed ?? 0) > 0;
+      setPoints((prev) => prev + tapPoints(rating, broken ? 0 : streak));
+      setStreak((prev) => (rating === "miss" ? 0 : broken ? 1 : prev + 1));
+      setLastTap({ rating, at: Date.now() });
+      recordStat("hits");
+      if (rating === "perfect") recordStat("perfects");
+      addBurst(padId, point);
     },
-    [ensureAudio, engine, streak, addBurst]
+    [ensureAudio, engine, quantize, streak, addBurst, recordStat, updateChallenge]
   );
 
+  const handleStopChallenge = useCallback(() => {
+    window.clearTimeout(challengeTimerRef.current);
+    const run = challengeRef.current;
+    if (!run) return;
+    updateChallenge(null);
+    const layer = activeClipsRef.current.find((item) => item.id === run.clipId);
+    if (layer) stopLayer(layer);
+  }, [stopLayer, updateChallenge]);
+
   const handleSaveClip = useCallback(() => {
     if (currentEvents.length === 0) return;
+    const totalSteps = clipSteps({ bars: loopBars, stepsPerBar: GRID_STEPS });
     const normalized = currentEvents
-      .map((evt) => ({ ...evt, tick: Math.abs(evt.tick % 16) }))
+      .map((evt) => ({ ...evt, tick: Math.abs(evt.tick % totalSteps) }))
       .sort((a, b) => a.tick - b.tick);
     const clipTitle = loopTitle.trim() || `Pulse ${sharedClips.length + 1}`;
     const clip: LoopClip = {
@@ -210,77 +605,696 @@ export default function ArBeatPad() {
       title: clipTitle,
       author: "You",
       bpm,
+      bars: loopBars,
+      stepsPerBar: GRID_STEPS,
+      key: musicalKey,
+      scale,
+      mixer,
+      kitId,
+      synthKitId: synthKit.id,
+      swing,
+      groove,
+      quantize,
       color: randomColor(),
       createdAt: Date.now(),
-      likes: Math.floor(Math.random() * 70),
+      likes: 0,
       remixes: 0,
+      parentId: remixSource?.id ?? null,
       events: normalized
     };
-    setSharedClips((prev) => [clip, ...prev]);
+    setSharedClips((prev) => [
+      clip,
+      ...prev.map((item) => (item.id === clip.parentId ? { ...item, remixes: item.remixes + 1 } : item))
+    ]);
+    addOwnClipId(clip.id);
+    setSharingClip(clip);
     setPoints((prev) => prev + 140);
+    recordStat("clipsShared");
+    if (clip.parentId) recordStat("remixes");
     setLoopTitle("");
     setCurrentEvents([]);
-  }, [bpm, currentEvents, loopTitle, sharedClips.length]);
+    setRemixSource(null);
+    // the clip stays in the local feed if the server cannot take it
+    publishClip(clip, clip.parentId)
+      .then((published) => {
+        // the server files it under a fresh id
+        addOwnClipId(published.id);
+        setSharedClips((prev) => prev.map((item) => (item.id === clip.id ? published : item)));
+      })
+      .catch((err) => console.error(err));
+  }, [
+    bpm,
+    currentEvents,
+    groove,
+    kitId,
+    loopBars,
+    loopTitle,
+    mixer,
+    musicalKey,
+    quantize,
+    recordStat,
+    remixSource,
+    scale,
+    sharedClips.length,
+    swing,
+    synthKit.id
+  ]);
+
+  const synthKits = useMemo(() => [...BUILT_IN_SYNTH_KITS, ...userSynthKits], [userSynthKits]);
+
+  // a clip whose kits are not in this browser falls back to the synths and the default kit
+  const selectClipKit = useCallback(
+    (clip: LoopClip) => {
+      setKitId(kits.some((kit) => kit.id === clip.kitId) ? clip.kitId : null);
+      if (clip.synthKitId !== synthKit.id) {
+        setSynthKit(findSynthKit(synthKits, clip.synthKitId));
+        setSynthKitDirty(false);
+      }
+    },
+    [kits, synthKit.id, synthKits]
+  );
+
+  const handleSynthKitChange = useCallback((kit: SynthKit) => {
+    setSynthKit(kit);
+    setSynthKitDirty(true);
+  }, []);
+
+  const handleSelectSynthKit = useCallback(
+    (id: string) => {
+      setSynthKit(findSynthKit(synthKits, id));
+      setSynthKitDirty(false);
+    },
+    [synthKits]
+  );
+
+  // built-in kits stay as shipped, saving an edit of one forks it into a user kit
+  const handleSaveSynthKit = useCallback(() => {
+    const saved: SynthKit = synthKit.builtIn
+      ? { ...synthKit, id: uid(), name: `${synthKit.name} Custom`, builtIn: false }
+      : synthKit;
+    setUserSynthKits((prev) =>
+      prev.some((kit) => kit.id === saved.id)
+        ? prev.map((kit) => (kit.id === saved.id ? saved : kit))
+        : [...prev, saved]
+    );
+    setSynthKit(saved);
+    setSynthKitDirty(false);
+  }, [synthKit]);
+
+  const handleDeleteSynthKit = useCallback((kit: SynthKit) => {
+    setUserSynthKits((prev) => prev.filter((item) => item.id !== kit.id));
+    setSynthKit(BUILT_IN_SYNTH_KITS[0]);
+    setSynthKitDirty(false);
+  }, []);
+
+  const handleCreateKit = useCallback(() => {
+    const kit: SampleKit = { id: uid(), name: `Kit ${kits.length + 1}`, createdAt: Date.now(), pads: {} };
+    saveKit(kit).catch((err) => console.error(err));
+    setKits((prev) => [...prev, kit]);
+    setKitId(kit.id);
+  }, [kits.length]);
+
+  const handleKitChange = useCallback((kit: SampleKit) => {
+    saveKit(kit).catch((err) => console.error(err));
+    setKits((prev) => prev.map((item) => (item.id === kit.id ? kit : item)));
+  }, []);
+
+  const handleDeleteKit = useCallback((kit: SampleKit) => {
+    deleteKit(kit.id).catch((err) => console.error(err));
+    setKits((prev) => prev.filter((item) => item.id !== kit.id));
+    setKitId((prev) => (prev === kit.id ? null : prev));
+  }, []);
 
   const handleRemixClip = useCallback(
     async (clip: LoopClip) => {
       await ensureAudio();
       setCurrentEvents(clip.events);
       setBpm(clip.bpm);
+      setLoopBars(clip.bars);
+      setMusicalKey(clip.key);
+      setScale(clip.scale);
+      setMixer(clip.mixer);
+      selectClipKit(clip);
+      setSwing(clip.swing);
+      setGroove(clip.groove);
+      setQuantize(clip.quantize);
       setPoints((prev) => prev + 80);
-      setSharedClips((prev) =>
-        prev.map((item) =>
-          item.id === clip.id ? { ...item, remixes: item.remixes + 1 } : item
-        )
-      );
-      if (activeClip) {
-        engine.stopClip(activeClip);
+      setRemixSource(clip);
+      launchClip(clip);
+      editingClipIdRef.current = clip.id;
+    },
+    [ensureAudio, launchClip, selectClipKit]
+  );
+
+  const handleToggleClip = useCallback(
+    async (clip: LoopClip) => {
+      const running = activeClipsRef.current.find((layer) => layer.id === clip.id);
+      if (running) {
+        stopLayer(running);
+        return;
+      }
+      await ensureAudio();
+      // the first layer sets the mix, later ones stack on top of it
+      if (activeClipsRef.current.length === 0) {
+        setLoopBars(clip.bars);
+        setMixer(clip.mixer);
+        selectClipKit(clip);
       }
-      const instance = engine.createClip(clip);
-      setActiveClip(instance);
+      launchClip(clip);
     },
-    [ensureAudio, engine, activeClip]
+    [ensureAudio, launchClip, selectClipKit, stopLayer]
   );
 
-  const handlePlayCapture = useCallback(async () => {
-    if (currentEvents.length === 0) return;
-    await ensureAudio();
-    if (activeClip) {
-      engine.stopClip(activeClip);
-    }
-    const clip: LoopClip = {
-      id: uid(),
+  const handleLikeClip = useCallback((clip: LoopClip) => {
+    setSharedClips((prev) =>
+      prev.map((item) => (item.id === clip.id ? { ...item, likes: item.likes + 1 } : item))
+    );
+    likeClip(clip.id)
+      .then((liked) => setSharedClips((prev) => prev.map((item) => (item.id === liked.id ? liked : item))))
+      .catch((err) => console.error(err));
+  }, []);
+
+  const sketchClip = useMemo<LoopClip>(
+    () => ({
+      id: SKETCH_CLIP_ID,
       title: "Live Sketch",
       author: "You",
       bpm,
+      bars: loopBars,
+      stepsPerBar: GRID_STEPS,
+      key: musicalKey,
+      scale,
+      mixer,
+      kitId,
+      synthKitId: synthKit.id,
+      swing,
+      groove,
+      quantize,
       color: "#ff6ac1",
       createdAt: Date.now(),
       likes: 0,
       remixes: 0,
+      parentId: null,
       events: currentEvents
+    }),
+    [bpm, currentEvents, groove, kitId, loopBars, mixer, musicalKey, quantize, scale, swing, synthKit.id]
+  );
+
+  const battleClips = useMemo(
+    () => (currentEvents.length ? [sketchClip, ...sharedClips] : sharedClips),
+    [currentEvents.length, sharedClips, sketchClip]
+  );
+
+  const handlePlayCapture = useCallback(async () => {
+    if (currentEvents.length === 0) return;
+    await ensureAudio();
+    launchClip(sketchClip);
+    editingClipIdRef.current = sketchClip.id;
+  }, [currentEvents.length, ensureAudio, launchClip, sketchClip]);
+
+  const handleTogglePlay = useCallback(async () => {
+    await ensureAudio();
+    if (activeClipsRef.current.length > 0) {
+      stopAllLayers();
+    } else if (DEFAULT_CLIPS.length > 0) {
+      const first = DEFAULT_CLIPS[0];
+      setBpm(first.bpm);
+      setLoopBars(first.bars);
+      setMixer(first.mixer);
+      editingClipIdRef.current = null;
+      launchClip(first);
+    }
+  }, [ensureAudio, launchClip, stopAllLayers]);
+
+  const handleClearSketch = useCallback(() => {
+    setCurrentEvents([]);
+    setStreak(0);
+    jamRef.current?.sendPattern({ bars: loopBars, events: [] });
+  }, [loopBars]);
+
+  const handleInputAction = useCallback(
+    (action: TransportAction) => {
+      switch (action) {
+        case "playStop":
+          handleTogglePlay().catch((err) => console.error(err));
+          break;
+        case "clear":
+          handleClearSketch();
+          break;
+        case "save":
+          handleSaveClip();
+          break;
+        case "preview":
+          handlePlayCapture().catch((err) => console.error(err));
+          break;
+        case "bpmUp":
+          setBpm((prev) => Math.min(140, prev + BPM_NUDGE));
+          break;
+        case "bpmDown":
+          setBpm((prev) => Math.max(80, prev - BPM_NUDGE));
+          break;
+      }
+    },
+    [handleClearSketch, handlePlayCapture, handleSaveClip, handleTogglePlay]
+  );
+
+  // the controller outlives renders, so it reaches the latest handlers through here
+  const inputHandlersRef = useRef({ onPad: handlePadTrigger, onAction: handleInputAction });
+  inputHandlersRef.current = { onPad: handlePadTrigger, onAction: handleInputAction };
+
+  // keys and gamepads stay live while the HUD is hidden, so they are wired here rather than in the panel
+  useEffect(() => {
+    const controller: InputBindingsController = new InputBindingsController(
+      {
+        onPad: (padId, velocity) => {
+          inputHandlersRef.current.onPad(padId, velocity).catch((err) => console.error(err));
+        },
+        onAction: (action) => inputHandlersRef.current.onAction(action),
+        onBindingsChange: (next) => {
+          setInputBindings(next);
+          setLearnBinding(controller.getLearnTarget());
+        },
+        onGamepadsChange: setGamepads
+      },
+      loadInputBindings()
+    );
+    inputRef.current = controller;
+    setInputBindings(controller.getBindings());
+    setInputBindingsLoaded(true);
+    controller.start();
+    return () => {
+      controller.dispose();
+      inputRef.current = null;
     };
-    const instance = engine.createClip(clip);
-    setActiveClip(instance);
-  }, [activeClip, bpm, currentEvents, engine, ensureAudio]);
+  }, []);
+
+  useEffect(() => {
+    // the controller already holds the stored bindings; the defaults must not replace them
+    if (!inputBindingsLoaded) return;
+    inputRef.current?.setBindings(inputBindings);
+    saveInputBindings(inputBindings);
+  }, [inputBindings, inputBindingsLoaded]);
+
+  const handleLearnBinding = useCallback((target: BindingTarget | null) => {
+    inputRef.current?.learn(target);
+    setLearnBinding(target);
+  }, []);
+
+  const handleDownloadWav = useCallback(
+    async (clip: LoopClip) => {
+      setRenderingClipId(clip.id);
+      try {
+        const wav = await engine.renderClip(clip, {
+          synthKit: findSynthKit(synthKits, clip.synthKitId),
+          repeats: 2,
+          bitDepth: 24
+        });
+        downloadBlob(wav, `${fileSlug(clip.title)}.wav`);
+      } catch (err) {
+        console.error(err);
+      } finally {
+        setRenderingClipId(null);
+      }
+    },
+    [engine, synthKits]
+  );
+
+  const handleDownloadMidi = useCallback(
+    (clip: LoopClip) => {
+      const synthKit = findSynthKit(synthKits, clip.synthKitId);
+      const midi = clipToMidi(clip, { format: midiFormat, synthKit });
+      downloadBlob(new Blob([midi], { type: "audio/midi" }), `${fileSlug(clip.title)}.mid`);
+    },
+    [midiFormat, synthKits]
+  );
+
+  const handleImportMidi = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const imported = midiToClip(await file.arrayBuffer(), { stepsPerBar: GRID_STEPS });
+      setCurrentEvents(imported.events);
+      setBpm(imported.bpm);
+      setLoopBars(imported.bars);
+      setLoopTitle(imported.title ?? file.name.replace(/\.midi?$/i, ""));
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  const handleMidiControl = useCallback((target: MidiControlTarget, value: number) => {
+    switch (target) {
+      case "bpm":
+        setBpm(Math.round(80 + value * 60));
+        break;
+      case "filter":
+        setFilterValue(Math.round(2000 + value * 16000));
+        break;
+      case "reverb":
+        setReverbValue(Math.round(value * 70) / 100);
+        break;
+    }
+  }, []);
+
+  const applyEvents = useCallback(
+    (events: LoopEvent[]) => {
+      setCurrentEvents(events);
+      updateLayers((prev) =>
+        prev.map((layer) =>
+          layer.id === editingClipIdRef.current ? engine.updateClip(layer, events) : layer
+        )
+      );
+    },
+    [engine, updateLayers]
+  );
+
+  const handleGridChange = useCallback(
+    (events: LoopEvent[]) => {
+      applyEvents(events);
+      jamRef.current?.sendPattern({ bars: loopBars, events });
+    },
+    [applyEvents, loopBars]
+  );
+
+  const handleRemoteHit = useCallback(
+    (hit: JamHit, peer: JamPeer | null) => {
+      const { padId, ticks, step: tick, offset, velocity, pitch } = hit;
+      if (audioReady) engine.scheduleHit(padId, ticks, velocity, pitch);
+      setCurrentEvents((prev) => [...prev, recordedEvent(padId, velocity, { tick, offset }, pitch)]);
+      if (peer) {
+        setJamActivity((prev) => ({ ...prev, [peer.id]: { padId, at: Date.now() } }));
+        addBurst(padId, undefined, peer.color);
+      }
+    },
+    [addBurst, audioReady, engine]
+  );
+  remoteHitRef.current = handleRemoteHit;
+
+  const handleJoinJam = useCallback(
+    (room: string, name: string) => {
+      jamRef.current?.dispose();
+      jamRef.current = new JamSession(
+        new WebSocket(defaultJamUrl(window.location)),
+        {
+          onHit: (hit, peer) => remoteHitRef.current(hit, peer),
+          onTransport: (transport) => setBpm(transport.bpm),
+          onPattern: ({ bars, events }) => {
+            setLoopBars(bars);
+            applyEvents(events);
+          },
+          onPeersChange: (peers) => {
+            setJamPeers(peers);
+            setJamPeerId(jamRef.current?.getPeerId() ?? null);
+          },
+          onStatusChange: (status) => {
+            setJamStatus(status);
+            if (status === "closed") setJamPeers([]);
+          },
+          getTransport: () => engine.getTransport()
+        },
+        { room, name, color: randomColor(), ppq: engine.getTransport().ppq }
+      );
+      recordStat("jams");
+    },
+    [applyEvents, engine, recordStat]
+  );
+
+  const handleLeaveJam = useCallback(() => {
+    jamRef.current?.dispose();
+    jamRef.current = null;
+    setJamPeerId(null);
+    setJamActivity({});
+  }, []);
+
+  const handleAddToSong = useCallback((clip: LoopClip) => {
+    setSong((prev) => ({ ...prev, sections: [...prev.sections, createSection(uid(), clip)] }));
+  }, []);
+
+  const handleStopSong = useCallback(() => {
+    if (activeSongRef.current) {
+      engine.stopSong(activeSongRef.current);
+      activeSongRef.current = null;
+    }
+    setSongPlaying(false);
+  }, [engine]);
+
+  const handleStopBattle = useCallback(() => {
+    if (activeBattleRef.current) {
+      engine.stopSong(activeBattleRef.current);
+      activeBattleRef.current = null;
+    }
+    setBattleLive(null);
+  }, [engine]);
+
+  const handlePlaySong = useCallback(async () => {
+    await ensureAudio();
+    stopAllLayers();
+    handleStopChallenge();
+    handleStopSong();
+    handleStopBattle();
+    activeSongRef.current = engine.playSong(song, handleStopSong);
+    setSongPlaying(true);
+  }, [engine, ensureAudio, handleStopBattle, handleStopChallenge, handleStopSong, song, stopAllLayers]);
+
+  const handleExportSong = useCallback(async () => {
+    setRenderingSong(true);
+    try {
+      const wav = await engine.renderSong(song, { bitDepth: 24, tail: 2 });
+      downloadBlob(wav, `${fileSlug(song.title)}.wav`);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setRenderingSong(false);
+    }
+  }, [engine, song]);
+
+  const handlePlayBattle = useCallback(
+    async (battle: Battle) => {
+      await ensureAudio();
+      handleStopChallenge();
+      stopAllLayers();
+      handleStopSong();
+      handleStopBattle();
+      const turns = battleTurns(battle);
+      activeBattleRef.current = engine.playSong(battleSong(battle), handleStopBattle, (sectionId) =>
+        setBattleLive({ battleId: battle.id, turn: turns.find((turn) => turn.id === sectionId) ?? null })
+      );
+      setBattleLive({ battleId: battle.id, turn: null });
+    },
+    [engine, ensureAudio, handleStopBattle, handleStopChallenge, handleStopSong, stopAllLayers]
+  );
+
+  const handleStartBattle = useCallback(
+    async (contenders: [LoopClip, LoopClip], barsPerTurn: number, rounds: number) => {
+      try {
+        // the live sketch gets an id of its own so another player's sketch never counts as ours
+        const entries = contenders.map((clip) => {
+          if (clip.id !== SKETCH_CLIP_ID) return clip;
+          const entry = { ...clip, id: uid() };
+          addOwnClipId(entry.id);
+          return entry;
+        }) as [LoopClip, LoopClip];
+        const battle = await createBattle({ bpm, barsPerTurn, rounds, contenders: entries });
+        setBattles((prev) => [battle, ...prev]);
+        await handlePlayBattle(battle);
+      } catch (err) {
+        console.error(err);
+      }
+    },
+    [bpm, handlePlayBattle]
+  );
+
+  const replaceBattle = useCallback((battle: Battle) => {
+    setBattles((prev) => prev.map((item) => (item.id === battle.id ? battle : item)));
+  }, []);
+
+  // one vote per battle per browser; the backend has no accounts to check against
+  const handleVoteBattle = useCallback(
+    (battle: Battle, side: BattleSide) => {
+      if (battleVotes[battle.id] !== undefined) return;
+      setBattleVotes((prev) => ({ ...prev, [battle.id]: side }));
+      voteBattle(battle.id, side)
+        .then(replaceBattle)
+        .catch((err) => console.error(err));
+    },
+    [battleVotes, replaceBattle]
+  );
+
+  const handleCloseBattle = useCallback(
+    (battle: Battle) => {
+      if (battleLive?.battleId === battle.id) handleStopBattle();
+      closeBattle(battle.id)
+        .then((closed) => {
+          replaceBattle(closed);
+          if (closed.winner !== null && loadOwnClipIds().includes(closed.contenders[closed.winner].id)) {
+            setPoints((prev) => prev + BATTLE_WIN_POINTS);
+            setStreak((prev) => prev + 1);
+            recordStat("battleWins");
+          }
+        })
+        .catch((err) => console.error(err));
+    },
+    [battleLive, handleStopBattle, recordStat, replaceBattle]
+  );
+
+  const handleFinishChallenge = useCallback(() => {
+    const run = challengeRef.current;
+    if (!run) return;
+    handleStopChallenge();
+    const finished = finishChallenge(run);
+    const { accuracy } = challengeResult(finished);
+    setFinishedChallenge(finished);
+    setPoints((prev) => prev + Math.round(accuracy * CHALLENGE_BONUS));
+    setStats((prev) => ({
+      ...prev,
+      challenges: prev.challenges + 1,
+      bestAccuracy: Math.max(prev.bestAccuracy, accuracy)
+    }));
+  }, [handleStopChallenge]);
+
+  const handleStartChallenge = useCallback(
+    async (clip: LoopClip) => {
+      await ensureAudio();
+      handleStopChallenge();
+      stopAllLayers();
+      handleStopSong();
+      handleStopBattle();
+      setBpm(clip.bpm);
+      setLoopBars(clip.bars);
+      setMixer(clip.mixer);
+      selectClipKit(clip);
+      const layer = launchClip(clip);
+      const { ticks, ppq } = engine.getTransport();
+      const run = createChallenge(clip, layer.startTicks, ppq);
+      updateChallenge(run);
+      // a beat of slack after the last bar so a late final hit is still rated
+      const remaining = ticksToSeconds(run.endTicks - ticks + ppq, clip.bpm, ppq);
+      challengeTimerRef.current = window.setTimeout(handleFinishChallenge, remaining * 1000);
+    },
+    [
+      engine,
+      ensureAudio,
+      handleFinishChallenge,
+      handleStopBattle,
+      handleStopChallenge,
+      handleStopSong,
+      launchClip,
+      selectClipKit,
+      stopAllLayers,
+      updateChallenge
+    ]
+  );
+
+  const handleSaveScene = useCallback(
+    (name: string) => {
+      if (activeClipsRef.current.length === 0) return;
+      const scene: Scene = {
+        id: uid(),
+        name: name.trim() || `Scene ${scenes.length + 1}`,
+        createdAt: Date.now(),
+        layers: activeClipsRef.current.map(toSceneLayer)
+      };
+      setScenes((prev) => [...prev, scene]);
+    },
+    [scenes.length]
+  );
+
+  const handleRecallScene = useCallback(
+    async (scene: Scene) => {
+      await ensureAudio();
+      stopAllLayers();
+      editingClipIdRef.current = null;
+      scene.layers.forEach(({ clip, volume, muted }) => launchClip(clip, { volume, muted }));
+    },
+    [ensureAudio, launchClip, stopAllLayers]
+  );
 
   useEffect(() => {
     engine.setBpm(bpm);
   }, [engine, bpm]);
 
+  useEffect(() => {
+    jamRef.current?.setTempo(bpm);
+  }, [bpm]);
+
+  useEffect(() => {
+    if (!audioReady || jamStatus !== "open") return;
+    const timer = setInterval(() => {
+      const jam = jamRef.current;
+      const ticks = jam?.transportTicks() ?? null;
+      const transport = jam?.getTransport();
+      if (ticks !== null && transport) engine.alignTransport(ticks, transport.bpm);
+    }, JAM_SYNC_INTERVAL);
+    return () => clearInterval(timer);
+  }, [audioReady, engine, jamStatus]);
+
+  useEffect(() => {
+    return () => jamRef.current?.dispose();
+  }, []);
+
+  useEffect(() => {
+    return () => window.clearTimeout(challengeTimerRef.current);
+  }, []);
+
+  useEffect(() => {
+    engine.setLoopLength(loopBars, GRID_STEPS);
+  }, [engine, loopBars]);
+
+  useEffect(() => {
+    engine.setMixer(mixer);
+  }, [engine, mixer]);
+
+  useEffect(() => {
+    engine.setQuantize(quantize);
+  }, [engine, quantize]);
+
+  useEffect(() => {
+    engine.setSynthKit(synthKit);
+  }, [engine, synthKit]);
+
+  useEffect(() => {
+    engine.loadKit(kits.find((kit) => kit.id === kitId) ?? null).catch((err) => console.error(err));
+  }, [engine, kitId, kits]);
+
+  useEffect(() => {
+    updateLayers((prev) =>
+      prev.map((layer) =>
+        layer.id === editingClipIdRef.current && (layer.swing !== swing || layer.groove !== groove)
+          ? engine.updateClip({ ...layer, swing, groove }, layer.events)
+          : layer
+      )
+    );
+  }, [engine, groove, swing, updateLayers]);
+
   useEffect(() => {
     engine.setFilterFrequency(filterValue);
   }, [engine, filterValue]);
 
+  // each pad button flashes as its voice sounds, whether tapped, looped or part of a song
+  useEffect(
+    () =>
+      engine.onTrigger((padId, velocity) => {
+        padButtonRefs.current[padId]?.animate(
+          [{ filter: `brightness(${1 + velocity})` }, { filter: "brightness(1)" }],
+          { duration: 220, easing: "ease-out" }
+        );
+      }),
+    [engine]
+  );
+
   useEffect(() => {
     engine.setReverbWet(reverbValue);
   }, [engine, reverbValue]);
 
   useEffect(() => {
     return () => {
-      activeClip?.part?.dispose();
+      activeClipsRef.current.forEach((layer) => layer.part?.dispose());
+      activeSongRef.current?.part.dispose();
+      activeBattleRef.current?.part.dispose();
       engine.dispose();
     };
-  }, [activeClip, engine]);
+  }, [engine]);
 
   useEffect(() => {
     if (!cameraReady || !containerRef.current) return;
@@ -304,11 +1318,31 @@ export default function ArBeatPad() {
         muted
         className={clsx(
           "absolute inset-0 h-full w-full object-cover transition-all duration-700",
-          cameraReady ? "opacity-100" : "opacity-0"
+          cameraReady && !effectsOn ? "opacity-100" : "opacity-0"
         )}
-        style={{ filter: cameraFilter.css }}
+        style={effectsOn ? undefined : { filter: cameraPreset.css }}
       />
+      {effectsOn && (
+        <CameraEffectsCanvas
+          videoRef={videoRef}
+          canvasRef={effectsCanvasRef}
+          engine={engine}
+          preset={cameraPreset}
+          sweep={(filterValue - 2000) / 16000}
+          onUnsupported={() => setWebglFailed(true)}
+        />
+      )}
       <div className="pointer-events-none absolute inset-0 bg-gradient-to-b from-black/65 via-black/30 to-black/80" />
+      <div className={clsx("pointer-events-none absolute inset-0 transition-opacity duration-700", skin.glow)} />
+      {cameraReady && handPads && (
+        <GestureOverlay
+          videoRef={videoRef}
+          onPad={(padId, velocity) => {
+            handlePadTrigger(padId, velocity).catch((err) => console.error(err));
+          }}
+          onSweep={handFilter ? (x) => handleMidiControl("filter", x) : undefined}
+        />
+      )}
       <div className="relative z-10 flex h-full w-full flex-col px-6 pb-6 pt-10">
         <header className="flex items-center justify-between">
           <div>
@@ -321,6 +1355,20 @@ export default function ArBeatPad() {
             <p className="text-[10px] uppercase tracking-widest text-neo-cyan">
               Streak {streak}
             </p>
+            {lastTap && (
+              <motion.p
+                key={lastTap.at}
+                initial={{ opacity: 1, y: -4 }}
+                animate={{ opacity: 0.5, y: 0 }}
+                transition={{ duration: 0.5 }}
+                className={clsx(
+                  "text-[10px] uppercase tracking-widest",
+                  lastTap.rating === "miss" ? "text-neo-pink" : "text-neo-yellow"
+                )}
+              >
+                {TIMING_RATINGS[lastTap.rating].label}
+              </motion.p>
+            )}
           </div>
         </header>
 
@@ -330,21 +1378,45 @@ export default function ArBeatPad() {
           </div>
         )}
 
+        <AnimatePresence>
+          {achievementToast && (
+            <motion.div
+              key={achievementToast.id}
+              initial={{ opacity: 0, y: -12 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -12 }}
+              className="fixed inset-x-0 top-6 z-30 mx-auto w-fit rounded-2xl border border-neo-yellow/60 bg-black/70 px-5 py-3 text-center backdrop-blur"
+            >
+              <p className="text-[10px] uppercase tracking-[0.35em] text-neo-yellow">Achievement unlocked</p>
+              <p className="mt-1 text-sm font-semibold text-white">{achievementToast.name}</p>
+              <p className="text-[10px] text-white/60">
+                {achievementToast.description} · +{achievementToast.reward} pts
+              </p>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         <div className="mt-6 flex flex-1 flex-col">
           <div
             ref={padRef}
             className={clsx(
-              "relative mx-auto flex aspect-square w-full max-w-xl items-center justify-center rounded-full border border-white/10 bg-white/5 p-6",
-              "backdrop-blur-xl shadow-[0_0_120px_rgba(255,106,193,0.35)]"
+              "relative mx-auto flex aspect-square w-full max-w-xl items-center justify-center rounded-full border bg-white/5 p-6",
+              "backdrop-blur-xl transition-shadow duration-700",
+              skin.ring
             )}
           >
-            <div className="absolute inset-4 rounded-full border border-white/10 bg-grid-glow opacity-80" />
+            <div className={clsx("absolute inset-4 rounded-full border border-white/10 opacity-80", skin.face)} />
+            <StepRing engine={engine} clip={activeClips.at(-1) ?? null} />
             {padOrder.map((padId, index) => {
               const angle = (360 / padOrder.length) * index;
               const config = PAD_META[padId];
+              const key = inputBindings.hints ? inputFor(inputBindings.keys, padId) : undefined;
               return (
                 <button
                   key={padId}
+                  ref={(node) => {
+                    padButtonRefs.current[padId] = node;
+                  }}
                   className={clsx(
                     "group absolute h-32 w-20 origin-bottom -translate-x-1/2 -translate-y-full rounded-full border border-white/20",
                     "bg-gradient-to-b from-white/20 to-white/0 backdrop-blur-xl transition-transform duration-150",
@@ -354,8 +1426,15 @@ export default function ArBeatPad() {
                   style={{
                     transform: `rotate(${angle}deg) translateY(-120px) rotate(${-angle}deg)`
                   }}
-                  onPointerDown={(event) => handlePadTrigger(padId, event)}
+                  onPointerDown={(event) =>
+                    handlePadTrigger(padId, 1, { x: event.clientX, y: event.clientY })
+                  }
                 >
+                  {key && (
+                    <span className="absolute -right-2 -top-2 hidden rounded-md border border-white/30 bg-black/60 px-1.5 py-0.5 text-[10px] font-semibold text-white/80 md:block">
+                      {keyLabel(key)}
+                    </span>
+                  )}
                   <div
                     className={clsx(
                       "mx-auto mt-3 h-10 w-10 rounded-full border border-white/20 bg-gradient-to-br shadow-glow transition-all group-active:scale-110",
@@ -377,20 +1456,9 @@ export default function ArBeatPad() {
             <div className="relative flex h-40 w-40 items-center justify-center rounded-full border border-white/40 bg-black/30 shadow-inner shadow-white/10 backdrop-blur">
               <button
                 className="pointer-events-auto flex h-28 w-28 items-center justify-center rounded-full border border-neo-cyan/40 bg-gradient-to-br from-neo-purple/40 via-transparent to-black/60 text-xs uppercase tracking-[0.4em] text-white/80 shadow-glow backdrop-blur-lg"
-                onPointerDown={async () => {
-                  await ensureAudio();
-                  if (activeClip) {
-                    engine.stopClip(activeClip);
-                    setActiveClip(null);
-                  } else if (DEFAULT_CLIPS.length > 0) {
-                    const first = DEFAULT_CLIPS[0];
-                    setBpm(first.bpm);
-                    const clip = engine.createClip(DEFAULT_CLIPS[0]);
-                    setActiveClip(clip);
-                  }
-                }}
+                onPointerDown={handleTogglePlay}
               >
-                {activeClip ? "Stop" : "Play"}
+                {activeClips.length > 0 ? "Stop" : "Play"}
               </button>
             </div>
             <AnimatePresence>
@@ -452,7 +1520,77 @@ export default function ArBeatPad() {
                   step={0.01}
                   onChange={(event) => setReverbValue(Number(event.target.value))}
                 />
+                <div className="mt-4 flex items-center justify-between text-xs uppercase tracking-[0.35em] text-white/60">
+                  <span>Groove</span>
+                  <select
+                    className="rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-[10px] tracking-[0.2em] text-white focus:border-neo-cyan focus:outline-none"
+                    value={groove}
+                    onChange={(event) => {
+                      const next = event.target.value as GrooveId;
+                      setGroove(next);
+                      setSwing(GROOVES[next].swing);
+                    }}
+                  >
+                    {(Object.keys(GROOVES) as GrooveId[]).map((id) => (
+                      <option key={id} value={id}>
+                        {GROOVES[id].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="mt-4 flex items-center justify-between text-xs uppercase tracking-[0.35em] text-white/60">
+                  <span>Swing</span>
+                  <span className="text-white/40">{Math.round(swing * 100)}%</span>
+                </div>
+                <input
+                  className="mt-2 h-1 w-full cursor-pointer appearance-none rounded-lg bg-white/20 accent-neo-purple"
+                  type="range"
+                  min={MIN_SWING}
+                  max={MAX_SWING}
+                  value={swing}
+                  step={0.01}
+                  onChange={(event) => setSwing(Number(event.target.value))}
+                />
+                <div className="mt-4 flex items-center justify-between text-xs uppercase tracking-[0.35em] text-white/60">
+                  <span>Quantize</span>
+                  <div className="flex gap-1">
+                    {QUANTIZE_OPTIONS.map((option) => (
+                      <button
+                        key={option}
+                        onClick={() => setQuantize(option)}
+                        className={clsx(
+                          "rounded-lg border px-2 py-1 text-[10px] tracking-normal",
+                          quantize === option
+                            ? "border-neo-cyan bg-neo-cyan/20 text-white"
+                            : "border-white/10 bg-white/5 text-white/60"
+                        )}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </div>
+              <MixerPanel pads={padOrder} mixer={mixer} onChange={setMixer} />
+              <KitPanel
+                pads={padOrder}
+                kits={kits}
+                kitId={kitId}
+                onSelect={setKitId}
+                onCreate={handleCreateKit}
+                onChange={handleKitChange}
+                onDelete={handleDeleteKit}
+              />
+              <SoundDesignPanel
+                pads={padOrder}
+                kits={synthKits}
+                kit={synthKit}
+                dirty={synthKitDirty}
+                onSelect={handleSelectSynthKit}
+                onChange={handleSynthKitChange}
+                onSave={handleSaveSynthKit}
+                onDelete={handleDeleteSynthKit}
+              />
               <div className="rounded-3xl border border-white/10 bg-white/10 p-4 backdrop-blur">
                 <h2 className="text-sm uppercase tracking-[0.35em] text-white/60">
                   Capture & Share
@@ -463,6 +1601,70 @@ export default function ArBeatPad() {
                   value={loopTitle}
                   onChange={(event) => setLoopTitle(event.target.value)}
                 />
+                {remixSource && (
+                  <div className="mt-2 flex items-center justify-between text-[10px] uppercase tracking-[0.2em] text-neo-purple">
+                    <span className="truncate">
+                      Remixing {remixSource.title} by {remixSource.author}
+                    </span>
+                    <button onClick={() => setRemixSource(null)} className="text-white/50 hover:text-white">
+                      Detach
+                    </button>
+                  </div>
+                )}
+                <div className="mt-4 flex items-center justify-between text-xs uppercase tracking-[0.35em] text-white/60">
+                  <span>Loop length</span>
+                  <div className="flex gap-2">
+                    {BAR_OPTIONS.map((bars) => (
+                      <button
+                        key={bars}
+                        onClick={() => {
+                          setLoopBars(bars);
+                          jamRef.current?.sendPattern({ bars, events: currentEvents });
+                        }}
+                        className={clsx(
+                          "rounded-lg border px-2 py-1 text-[10px] tracking-[0.2em]",
+                          loopBars === bars
+                            ? "border-neo-cyan bg-neo-cyan/20 text-white"
+                            : "border-white/10 bg-white/5 text-white/60"
+                        )}
+                      >
+                        {bars}m
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="mt-4 flex items-center justify-between text-xs uppercase tracking-[0.35em] text-white/60">
+                  <span>MIDI</span>
+                  <div className="flex gap-2">
+                    {([0, 1] as MidiFormat[]).map((format) => (
+                      <button
+                        key={format}
+                        onClick={() => setMidiFormat(format)}
+                        className={clsx(
+                          "rounded-lg border px-2 py-1 text-[10px] tracking-[0.2em]",
+                          midiFormat === format
+                            ? "border-neo-cyan bg-neo-cyan/20 text-white"
+                            : "border-white/10 bg-white/5 text-white/60"
+                        )}
+                      >
+                        Type {format}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => midiInputRef.current?.click()}
+                      className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-[10px] tracking-[0.2em] text-white/60 transition hover:border-white/30 hover:text-white"
+                    >
+                      Import
+                    </button>
+                    <input
+                      ref={midiInputRef}
+                      type="file"
+                      accept=".mid,.midi,audio/midi"
+                      className="hidden"
+                      onChange={handleImportMidi}
+                    />
+                  </div>
+                </div>
                 <div className="mt-4 flex flex-wrap gap-3">
                   <button
                     onClick={handlePlayCapture}
@@ -477,63 +1679,203 @@ export default function ArBeatPad() {
                     Share Clip
                   </button>
                   <button
-                    onClick={() => {
-                      setCurrentEvents([]);
-                      setStreak(0);
-                    }}
+                    onClick={handleClearSketch}
                     className="flex-1 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-xs uppercase tracking-[0.35em] text-white/60 transition hover:border-white/30 hover:text-white"
                   >
                     Clear
                   </button>
                 </div>
                 <div className="mt-5 rounded-2xl border border-white/10 bg-black/30 p-3 text-xs text-white/60">
-                  <p>Unlocked Skins:</p>
-                  <div className="mt-2 flex gap-2">
-                    {unlockedSkins.map((skin) => (
-                      <button
-                        key={skin.id}
-                        onClick={() => setActiveSkin(skin.id)}
-                        className={clsx(
-                          "flex-1 rounded-xl border px-3 py-2 text-[10px] uppercase tracking-[0.35em]",
-                          activeSkin === skin.id
-                            ? "border-neo-pink bg-neo-pink/20 text-white"
-                            : "border-white/10 bg-white/5 text-white/60"
-                        )}
-                      >
-                        {skin.name}
-                      </button>
-                    ))}
+                  <p>Skins:</p>
+                  <div className="mt-2 grid grid-cols-2 gap-2">
+                    {SKINS.map((option) => {
+                      const locked = points < option.threshold;
+                      return (
+                        <button
+                          key={option.id}
+                          disabled={locked}
+                          onClick={() => setActiveSkin(option.id)}
+                          className={clsx(
+                            "rounded-xl border px-3 py-2 text-[10px] uppercase tracking-[0.35em] disabled:cursor-not-allowed disabled:opacity-40",
+                            skin.id === option.id
+                              ? "border-neo-pink bg-neo-pink/20 text-white"
+                              : "border-white/10 bg-white/5 text-white/60"
+                          )}
+                        >
+                          {option.name}
+                          {locked && <span className="block tracking-widest">{option.threshold} pts</span>}
+                        </button>
+                      );
+                    })}
                   </div>
                 </div>
               </div>
+              <AchievementsPanel stats={stats} unlocked={achievements} />
+              <MidiPanel
+                pads={padOrder}
+                onPad={(padId, velocity) => {
+                  handlePadTrigger(padId, velocity).catch((err) => console.error(err));
+                }}
+                onControl={handleMidiControl}
+              />
+              <BindingsPanel
+                pads={padOrder}
+                bindings={inputBindings}
+                learning={learnBinding}
+                gamepads={gamepads}
+                onLearn={handleLearnBinding}
+                onToggleHints={() => setInputBindings((prev) => ({ ...prev, hints: !prev.hints }))}
+                onReset={() => setInputBindings(DEFAULT_BINDINGS)}
+              />
+              <JamPanel
+                status={jamStatus}
+                peers={jamPeers}
+                selfId={jamPeerId}
+                activity={jamActivity}
+                onJoin={handleJoinJam}
+                onLeave={handleLeaveJam}
+              />
+              <ScaleStrip
+                musicalKey={musicalKey}
+                scale={scale}
+                onKeyChange={setMusicalKey}
+                onScaleChange={setScale}
+                onPlay={(padId, pitch) => {
+                  handlePadTrigger(padId, 1, undefined, pitch).catch((err) => console.error(err));
+                }}
+              />
             </div>
           )}
 
+          <div className="mt-6 rounded-3xl border border-white/10 bg-black/30 p-4 backdrop-blur">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xs uppercase tracking-[0.35em] text-white/60">
+                Step Grid
+              </h2>
+              <span className="text-[10px] uppercase tracking-[0.35em] text-white/40">
+                Tap to toggle • drag for velocity
+              </span>
+            </div>
+            <div className="mt-4">
+              <StepGrid
+                pads={padOrder}
+                events={currentEvents}
+                totalSteps={clipSteps({ bars: loopBars, stepsPerBar: GRID_STEPS })}
+                stepsPerBar={GRID_STEPS}
+                onChange={handleGridChange}
+              />
+            </div>
+          </div>
+
+          <SessionPanel
+            layers={activeClips}
+            scenes={scenes}
+            onToggleMute={(layer) =>
+              updateLayers((prev) =>
+                prev.map((item) =>
+                  item.id === layer.id
+                    ? engine.setClipLevel(item, { volume: item.volume, muted: !item.muted })
+                    : item
+                )
+              )
+            }
+            onVolume={(layer, volume) =>
+              updateLayers((prev) =>
+                prev.map((item) =>
+                  item.id === layer.id ? engine.setClipLevel(item, { volume, muted: item.muted }) : item
+                )
+              )
+            }
+            onStop={stopLayer}
+            onSaveScene={handleSaveScene}
+            onRecallScene={handleRecallScene}
+            onDeleteScene={(scene) => setScenes((prev) => prev.filter((item) => item.id !== scene.id))}
+          />
+
+          <SongPanel
+            pads={padOrder}
+            song={song}
+            playing={songPlaying}
+            rendering={renderingSong}
+            onChange={setSong}
+            onPlay={handlePlaySong}
+            onStop={handleStopSong}
+            onExport={handleExportSong}
+          />
+
+          <RecordPanel
+            engine={engine}
+            title={loopTitle.trim() || "pulsecanvas-performance"}
+            ensureAudio={ensureAudio}
+            captureScene={captureScene}
+          />
+
+          <ChallengePanel
+            clips={DEFAULT_CLIPS}
+            challenge={challenge}
+            finished={finishedChallenge}
+            onStart={handleStartChallenge}
+            onStop={handleStopChallenge}
+          />
+
+          <BattlePanel
+            clips={battleClips}
+            battles={battles}
+            votes={battleVotes}
+            live={battleLive}
+            onStart={handleStartBattle}
+            onPlay={handlePlayBattle}
+            onStop={handleStopBattle}
+            onVote={handleVoteBattle}
+            onClose={handleCloseBattle}
+          />
+
           <div className="mt-6 rounded-3xl border border-white/10 bg-black/30 p-4 backdrop-blur">
             <div className="flex items-center justify-between">
               <h2 className="text-xs uppercase tracking-[0.35em] text-white/60">
                 Camera Filters
               </h2>
               <span className="text-[10px] uppercase tracking-[0.35em] text-white/40">
-                {cameraFilter.name}
+                {cameraPreset.name}
               </span>
             </div>
             <div className="mt-4 flex gap-3 overflow-x-auto pb-2">
-              {cameraFilters.map((filter) => (
+              {CAMERA_PRESETS.map((preset) => (
                 <button
-                  key={filter.id}
-                  onClick={() => setCameraFilter(filter)}
+                  key={preset.id}
+                  onClick={() => setCameraPreset(preset)}
                   className={clsx(
                     "h-24 w-32 flex-shrink-0 rounded-2xl border p-3 text-left text-xs leading-tight text-white/70 transition",
-                    cameraFilter.id === filter.id
+                    cameraPreset.id === preset.id
                       ? "border-neo-cyan bg-neo-cyan/20"
                       : "border-white/10 bg-white/5 hover:border-white/20"
                   )}
                 >
-                  <p className="text-[10px] uppercase tracking-[0.35em]">{filter.name}</p>
-                  <p className="mt-2 text-[11px] text-white/60">{filter.description}</p>
+                  <p className="text-[10px] uppercase tracking-[0.35em]">{preset.name}</p>
+                  <p className="mt-2 text-[11px] text-white/60">{preset.description}</p>
+                </button>
+              ))}
+            </div>
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-[10px] uppercase tracking-[0.2em]">
+              {[
+                { label: "Hand Pads", on: handPads, ready: cameraReady, toggle: setHandPads },
+                { label: "Hand Filter", on: handFilter, ready: cameraReady && handPads, toggle: setHandFilter }
+              ].map(({ label, on, ready, toggle }) => (
+                <button
+                  key={label}
+                  disabled={!ready}
+                  onClick={() => toggle((prev) => !prev)}
+                  className={clsx(
+                    "rounded-xl border px-3 py-2 transition disabled:opacity-40",
+                    on ? "border-neo-cyan bg-neo-cyan/20 text-white" : "border-white/10 bg-white/5 text-white/60"
+                  )}
+                >
+                  {label} {on ? "On" : "Off"}
                 </button>
               ))}
+              <span className="text-white/40">
+                Wave into the zones to play; with the filter on, move side to side to sweep it
+              </span>
             </div>
           </div>
 
@@ -543,60 +1885,189 @@ export default function ArBeatPad() {
                 Community Loop Stream
               </h2>
               <p className="text-[10px] uppercase tracking-[0.35em] text-white/40">
+                {quarantinedCount > 0 && (
+                  <span
+                    className="mr-3 text-neo-pink"
+                    title="Saved clips that failed validation were set aside, see the console"
+                  >
+                    {quarantinedCount} quarantined
+                  </span>
+                )}
                 Remix, battle, earn
               </p>
             </div>
-            <div className="mt-3 grid gap-3 md:grid-cols-2">
-              {sharedClips.map((clip) => (
-                <motion.article
-                  key={clip.id}
-                  layout
-                  className="rounded-3xl border border-white/10 bg-white/5 p-4 backdrop-blur transition hover:border-white/20"
+            {incomingClip && (
+              <div className="mt-3 flex flex-wrap items-center gap-3 rounded-2xl border border-neo-cyan/40 bg-neo-cyan/10 px-4 py-3">
+                <p className="flex-1 text-xs text-white/80">
+                  Shared with you: <span className="font-semibold text-white">{incomingClip.title}</span> by{" "}
+                  {incomingClip.author}
+                </p>
+                <button
+                  onClick={() => {
+                    handleRemixClip(incomingClip).catch((err) => console.error(err));
+                    setIncomingClip(null);
+                  }}
+                  className="rounded-xl border border-neo-purple/60 bg-neo-purple/20 px-4 py-2 text-[10px] uppercase tracking-[0.35em] text-white transition hover:bg-neo-purple/30"
+                >
+                  Remix it
+                </button>
+                <button
+                  onClick={() => setIncomingClip(null)}
+                  className="text-[10px] uppercase tracking-[0.35em] text-white/50 hover:text-white"
+                >
+                  Dismiss
+                </button>
+              </div>
+            )}
+            {shareError && (
+              <div className="mt-3 flex flex-wrap items-center gap-3 rounded-2xl border border-red-500/60 bg-red-500/10 px-4 py-3">
+                <p className="flex-1 text-xs text-red-200">Could not open the shared clip. {shareError}</p>
+                <button
+                  onClick={() => setShareError(null)}
+                  className="text-[10px] uppercase tracking-[0.35em] text-white/50 hover:text-white"
                 >
-                  <div className="flex items-start justify-between">
-                    <div>
-                      <p className="text-sm font-semibold text-white">{clip.title}</p>
-                      <p className="text-xs text-white/50">
-                        by {clip.author} • {clip.bpm} bpm • {formatRelative(clip.createdAt)}
-                      </p>
+                  Dismiss
+                </button>
+              </div>
+            )}
+            <FeedControls
+              pads={padOrder}
+              authors={authors}
+              sort={feedSort}
+              filter={feedFilter}
+              matches={feedClips.length}
+              onSortChange={(sort) => {
+                setFeedSort(sort);
+                setFeedLimit(FEED_PAGE_SIZE);
+              }}
+              onFilterChange={(filter) => {
+                setFeedFilter(filter);
+                setFeedLimit(FEED_PAGE_SIZE);
+              }}
+            />
+            {feedClips.length === 0 && (
+              <p className="mt-3 text-xs text-white/40">No clips match these filters.</p>
+            )}
+            <div className="mt-3 grid gap-3 md:grid-cols-2">
+              {feedClips.slice(0, feedLimit).map((clip) => {
+                const parent = clip.parentId ? sharedClips.find((item) => item.id === clip.parentId) : null;
+                const tree = openTreeId === clip.id ? remixTree(sharedClips, clip.id) : [];
+                return (
+                  <motion.article
+                    key={clip.id}
+                    layout
+                    className="rounded-3xl border border-white/10 bg-white/5 p-4 backdrop-blur transition hover:border-white/20"
+                  >
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="text-sm font-semibold text-white">{clip.title}</p>
+                        <p className="text-xs text-white/50">
+                          by {clip.author} • {clip.bpm} bpm • {clip.bars} bar{clip.bars > 1 ? "s" : ""} •{" "}
+                          {formatRelative(clip.createdAt)}
+                        </p>
+                        {clip.parentId && (
+                          <p className="mt-1 text-[10px] uppercase tracking-[0.2em] text-neo-purple">
+                            ↳ remix of{" "}
+                            {parent ? `${parent.title} by ${parent.author}` : "a clip not in this feed"}
+                          </p>
+                        )}
+                      </div>
+                      <div
+                        className="h-10 w-10 rounded-full border border-white/10"
+                        style={{ background: clip.color, boxShadow: `0 0 30px ${clip.color}55` }}
+                      />
                     </div>
-                    <div
-                      className="h-10 w-10 rounded-full border border-white/10"
-                      style={{ background: clip.color, boxShadow: `0 0 30px ${clip.color}55` }}
-                    />
-                  </div>
-                  <div className="mt-3 flex gap-3 text-[10px] uppercase tracking-[0.35em] text-white/50">
-                    <span>❤ {clip.likes}</span>
-                    <span>Remix ⚡ {clip.remixes}</span>
-                  </div>
-                  <div className="mt-3 flex gap-2 text-xs">
-                    <button
-                      onClick={() => handleRemixClip(clip)}
-                      className="flex-1 rounded-xl border border-neo-purple/60 bg-neo-purple/20 py-2 text-[10px] uppercase tracking-[0.35em] text-white transition hover:bg-neo-purple/30"
-                    >
-                      Remix
-                    </button>
-                    <button
-                      onClick={async () => {
-                        await ensureAudio();
-                        setActiveClip((prev) => {
-                          if (prev) {
-                            engine.stopClip(prev);
-                          }
-                          return engine.createClip(clip);
-                        });
-                      }}
-                      className="flex-1 rounded-xl border border-white/10 bg-white/5 py-2 text-[10px] uppercase tracking-[0.35em] text-white/70 transition hover:border-white/20 hover:text-white"
-                    >
-                      Play
-                    </button>
-                  </div>
-                </motion.article>
-              ))}
+                    <div className="mt-3 flex gap-3 text-[10px] uppercase tracking-[0.35em] text-white/50">
+                      <button onClick={() => handleLikeClip(clip)} title="Like" className="transition hover:text-neo-pink">
+                        ❤ {clip.likes}
+                      </button>
+                      <button
+                        onClick={() => setOpenTreeId((prev) => (prev === clip.id ? null : clip.id))}
+                        title="Show remix tree"
+                        className={clsx("transition hover:text-white", openTreeId === clip.id && "text-white")}
+                      >
+                        Remix ⚡ {clip.remixes}
+                      </button>
+                    </div>
+                    {openTreeId === clip.id && (
+                      <div className="mt-3">
+                        {tree.length > 0 ? (
+                          <RemixTree nodes={tree} onSelect={handleToggleClip} />
+                        ) : (
+                          <p className="text-xs text-white/40">No remixes in the feed yet.</p>
+                        )}
+                      </div>
+                    )}
+                    <div className="mt-3 grid grid-cols-3 gap-2 text-xs">
+                      <button
+                        onClick={() => handleRemixClip(clip)}
+                        className="flex-1 rounded-xl border border-neo-purple/60 bg-neo-purple/20 py-2 text-[10px] uppercase tracking-[0.35em] text-white transition hover:bg-neo-purple/30"
+                      >
+                        Remix
+                      </button>
+                      <button
+                        onClick={() => handleToggleClip(clip)}
+                        className={clsx(
+                          "flex-1 rounded-xl border py-2 text-[10px] uppercase tracking-[0.35em] transition",
+                          activeClips.some((layer) => layer.id === clip.id)
+                            ? "border-neo-cyan/60 bg-neo-cyan/20 text-white"
+                            : "border-white/10 bg-white/5 text-white/70 hover:border-white/20 hover:text-white"
+                        )}
+                      >
+                        {activeClips.some((layer) => layer.id === clip.id) ? "Stop" : "Play"}
+                      </button>
+                      <button
+                        onClick={() => handleDownloadWav(clip)}
+                        title="Download WAV"
+                        disabled={renderingClipId !== null}
+                        className="flex-1 rounded-xl border border-neo-cyan/40 bg-neo-cyan/10 py-2 text-[10px] uppercase tracking-[0.35em] text-white/70 transition hover:bg-neo-cyan/20 disabled:opacity-50"
+                      >
+                        {renderingClipId === clip.id ? "Rendering" : "⬇ WAV"}
+                      </button>
+                      <button
+                        onClick={() => handleDownloadMidi(clip)}
+                        title="Download MIDI"
+                        className="flex-1 rounded-xl border border-white/10 bg-white/5 py-2 text-[10px] uppercase tracking-[0.35em] text-white/70 transition hover:border-white/20 hover:text-white"
+                      >
+                        ⬇ MIDI
+                      </button>
+                      <button
+                        onClick={() => handleAddToSong(clip)}
+                        title="Add to song"
+                        className="flex-1 rounded-xl border border-neo-yellow/40 bg-neo-yellow/10 py-2 text-[10px] uppercase tracking-[0.35em] text-white/70 transition hover:bg-neo-yellow/20"
+                      >
+                        + Song
+                      </button>
+                      <button
+                        onClick={() => setSharingClip(clip)}
+                        title="Share link and QR code"
+                        className="flex-1 rounded-xl border border-neo-pink/40 bg-neo-pink/10 py-2 text-[10px] uppercase tracking-[0.35em] text-white/70 transition hover:bg-neo-pink/20"
+                      >
+                        Share
+                      </button>
+                    </div>
+                  </motion.article>
+                );
+              })}
             </div>
+            {feedClips.length > feedLimit && (
+              <button
+                onClick={() => setFeedLimit((prev) => prev + FEED_PAGE_SIZE)}
+                className="mt-3 w-full rounded-2xl border border-white/10 bg-white/5 py-3 text-[10px] uppercase tracking-[0.35em] text-white/60 transition hover:border-white/30 hover:text-white"
+              >
+                Show more ({feedClips.length - feedLimit} left)
+              </button>
+            )}
           </section>
         </div>
       </div>
+      {sharingClip && (
+        <ShareDialog
+          clip={sharingClip}
+          url={clipShareUrl(sharingClip, window.location)}
+          onClose={() => setSharingClip(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,125 +1,365 @@
 import * as Tone from "tone";
+import {
+  DEFAULT_GROOVE,
+  DEFAULT_QUANTIZE,
+  DEFAULT_SWING,
+  eventPosition,
+  placeTap,
+  quantizeGrid,
+  type GrooveId,
+  type QuantizeResolution
+} from "@/lib/groove";
+import type { KitSample, SampleKit } from "@/lib/kits";
+import { DEFAULT_KEY, DEFAULT_SCALE, type NoteName, type ScaleId } from "@/lib/music";
+import { songTimeline, type Song, type SongHit } from "@/lib/song";
+import {
+  BUILT_IN_SYNTH_KITS,
+  DEFAULT_SYNTH_KIT_ID,
+  type SynthKit,
+  type VoiceSettings
+} from "@/lib/synthKits";
+import { encodeWav, type WavBitDepth } from "@/lib/wav";
 
 export type PadId = "kick" | "snare" | "hat" | "bass" | "lead" | "fx";
 
+export type MelodicPadId = Extract<PadId, "bass" | "lead" | "fx">;
+
 export type QuantizedTrigger = {
   tick: number;
-  scheduledAt: number;
+  offset: number; // fraction of a step the hit lies off the recorded tick
+  ticks: number; // transport ticks the hit sounds at
+  tapped: number; // transport ticks at the moment of the tap, before any snap or lead
 };
 
 export type LoopEvent = {
   tick: number;
+  offset?: number; // fraction of a step off the grid, only set for unquantized hits
   padId: PadId;
   velocity: number;
+  pitch?: string;
+};
+
+export type BarCount = 1 | 2 | 4 | 8;
+
+export type ChannelSettings = {
+  volume: number; // dB
+  pan: number; // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+  send: number; // reverb send level, 0 to 1
 };
 
+export type MixerSettings = Record<PadId, ChannelSettings>;
+
 export type LoopClip = {
   id: string;
   title: string;
   author: string;
   bpm: number;
+  bars: BarCount;
+  stepsPerBar: number;
+  key: NoteName;
+  scale: ScaleId;
+  mixer: MixerSettings;
+  kitId: string | null; // sample kit in IndexedDB, null plays the built-in synths
+  synthKitId: string;
+  swing: number;
+  groove: GrooveId;
+  quantize: QuantizeResolution;
   color: string;
   createdAt: number;
   events: LoopEvent[];
   likes: number;
   remixes: number;
+  parentId: string | null; // the clip this one was remixed from
 };
 
 export type ActiveClip = LoopClip & {
   part: Tone.Part | null;
+  startTicks: number; // transport ticks of the bar line the first pass starts on
+  volume: number; // 0 to 1, scales every hit of this layer
+  muted: boolean;
+};
+
+export type ClipLevel = Pick<ActiveClip, "volume" | "muted">;
+
+export type ActiveSong = {
+  part: Tone.Part;
+  scheduled: number[]; // transport event ids for the tempo changes and the end marker
 };
 
 const GRID_RESOLUTION = 16; // sixteenth notes within a bar
+const SPECTRUM_BANDS = 128;
+const SPECTRUM_FLOOR = -100; // dB shown as an empty band
 const DEFAULT_BPM = 104;
 
+export const BAR_OPTIONS: BarCount[] = [1, 2, 4, 8];
+
+export const MELODIC_PADS: MelodicPadId[] = ["bass", "lead", "fx"];
+
+export const clipSteps = (clip: Pick<LoopClip, "bars" | "stepsPerBar">) =>
+  clip.bars * clip.stepsPerBar;
+
+export const DEFAULT_CHANNEL: ChannelSettings = { volume: 0, pan: 0, mute: false, solo: false, send: 0 };
+
+export const createDefaultMixer = (): MixerSettings => ({
+  kick: { ...DEFAULT_CHANNEL },
+  snare: { ...DEFAULT_CHANNEL },
+  hat: { ...DEFAULT_CHANNEL },
+  bass: { ...DEFAULT_CHANNEL },
+  lead: { ...DEFAULT_CHANNEL },
+  fx: { ...DEFAULT_CHANNEL }
+});
+
+/** A channel is silent when muted, or when any other channel is soloed and it is not. */
+export const isChannelSilenced = (mixer: MixerSettings, padId: PadId) =>
+  mixer[padId].mute ||
+  (!mixer[padId].solo && Object.values(mixer).some((channel) => channel.solo));
+
+type FxChain = {
+  filter: Tone.Filter;
+  reverb: Tone.Reverb;
+  sendReverb: Tone.Reverb;
+  distortion: Tone.Distortion;
+  limiter: Tone.Limiter;
+};
+
+type ChannelStrip = {
+  channel: Tone.Channel;
+  send: Tone.Gain;
+};
+
+type Strips = Record<PadId, ChannelStrip>;
+
+type Voice =
+  | Tone.MembraneSynth
+  | Tone.NoiseSynth
+  | Tone.MetalSynth
+  | Tone.MonoSynth
+  | Tone.Synth
+  | Tone.FMSynth;
+
+type Voices = Record<PadId, { synth: Voice; settings: VoiceSettings }>;
+
+type DecodedSample = Pick<KitSample, "trimStart" | "trimEnd" | "gain" | "chokeGroup"> & {
+  buffer: AudioBuffer;
+};
+
+type DecodedKit = {
+  id: string;
+  pads: Partial<Record<PadId, DecodedSample>>;
+};
+
+type Sampler = {
+  kit: DecodedKit;
+  strips: Strips;
+  ringing: Map<number, Tone.ToneBufferSource[]>; // sources still sounding, per choke group
+};
+
+/** The clip layer and event behind a hit, for hits that come from a looping clip. */
+export type TriggerSource = {
+  clipId: string;
+  event: LoopEvent;
+};
+
+export type TriggerListener = (padId: PadId, velocity: number, source?: TriggerSource) => void;
+
+export type StepListener = (ticks: number) => void; // transport ticks of the step
+
+export type RenderOptions = {
+  synthKit?: SynthKit;
+  repeats?: number;
+  bitDepth?: WavBitDepth;
+  tail?: number;
+};
+
+function createFxChain(filterFrequency: number, reverbWet: number): FxChain {
+  const filter = new Tone.Filter({
+    frequency: filterFrequency,
+    type: "lowpass",
+    Q: 1
+  });
+  const reverb = new Tone.Reverb({ decay: 4, wet: reverbWet });
+  const sendReverb = new Tone.Reverb({ decay: 4, wet: 1 });
+  const distortion = new Tone.Distortion({ distortion: 0.08, wet: 0.15 });
+  const limiter = new Tone.Limiter({ threshold: -3 });
+
+  filter.connect(reverb);
+  reverb.connect(distortion);
+  sendReverb.connect(distortion);
+  distortion.connect(limiter);
+
+  return { filter, reverb, sendReverb, distortion, limiter };
+}
+
+// post-fader: each channel feeds the filter directly and the send reverb through its send gain
+function createStrips(chain: FxChain, mixer: MixerSettings): Strips {
+  const strips = {} as Strips;
+  (Object.keys(mixer) as PadId[]).forEach((padId) => {
+    const settings = mixer[padId];
+    const channel = new Tone.Channel({
+      volume: settings.volume,
+      pan: settings.pan,
+      mute: isChannelSilenced(mixer, padId)
+    }).connect(chain.filter);
+    const send = new Tone.Gain(settings.send);
+    channel.connect(send);
+    send.connect(chain.sendReverb);
+    strips[padId] = { channel, send };
+  });
+  return strips;
+}
+
+const decodedAudio = new WeakMap<Blob, AudioBuffer>();
+
+async function decodeSample(audio: Blob): Promise<AudioBuffer> {
+  const cached = decodedAudio.get(audio);
+  if (cached) return cached;
+  const buffer = await Tone.getContext().decodeAudioData(await audio.arrayBuffer());
+  decodedAudio.set(audio, buffer);
+  return buffer;
+}
+
+const createSampler = (strips: Strips, kit: DecodedKit | null): Sampler | null =>
+  kit ? { kit, strips, ringing: new Map() } : null;
+
+// one-shot sources overlap freely unless the sample sits in a choke group
+function playSample(sampler: Sampler, sample: DecodedSample, padId: PadId, time: number, velocity: number) {
+  const { buffer, trimStart, trimEnd, gain, chokeGroup } = sample;
+  const end = Math.min(trimEnd ?? buffer.duration, buffer.duration);
+  if (end <= trimStart) return;
+
+  const source = new Tone.ToneBufferSource(buffer).connect(sampler.strips[padId].channel);
+  if (chokeGroup !== null) {
+    sampler.ringing.get(chokeGroup)?.forEach((other) => other.stop(time));
+    sampler.ringing.set(chokeGroup, [source]);
+  }
+  source.onended = () => {
+    if (chokeGroup !== null) {
+      const ringing = sampler.ringing.get(chokeGroup) ?? [];
+      sampler.ringing.set(chokeGroup, ringing.filter((other) => other !== source));
+    }
+    source.dispose();
+  };
+  source.start(time, trimStart, end - trimStart, velocity * Tone.dbToGain(gain));
+}
+
+function createVoice(settings: VoiceSettings): Voice {
+  const { envelope } = settings;
+  switch (settings.type) {
+    case "membrane":
+      return new Tone.MembraneSynth({ octaves: settings.octaves, pitchDecay: settings.pitchDecay, envelope });
+    case "noise":
+      return new Tone.NoiseSynth({ noise: { type: settings.noise }, envelope });
+    case "metal":
+      return new Tone.MetalSynth({
+        envelope,
+        harmonicity: settings.harmonicity,
+        modulationIndex: settings.modulationIndex,
+        resonance: settings.resonance
+      });
+    case "mono":
+      return new Tone.MonoSynth({
+        oscillator: { type: settings.oscillator },
+        filter: { Q: settings.filterQ, type: "lowpass", rolloff: -24 },
+        envelope
+      });
+    case "synth":
+      return new Tone.Synth({ oscillator: { type: settings.oscillator }, envelope });
+    case "fm":
+      return new Tone.FMSynth({
+        oscillator: { type: settings.oscillator },
+        harmonicity: settings.harmonicity,
+        modulationIndex: settings.modulationIndex,
+        envelope
+      });
+  }
+}
+
+function createVoices(strips: Strips, kit: SynthKit): Voices {
+  const voices = {} as Voices;
+  (Object.keys(kit.voices) as PadId[]).forEach((padId) => {
+    const settings = kit.voices[padId];
+    voices[padId] = { synth: createVoice(settings).connect(strips[padId].channel), settings };
+  });
+  return voices;
+}
+
 export class AudioEngine {
   private initialized = false;
-  private filter: Tone.Filter | null = null;
-  private reverb: Tone.Reverb | null = null;
-  private distortion: Tone.Distortion | null = null;
-  private limiter: Tone.Limiter | null = null;
-  private kick: Tone.MembraneSynth | null = null;
-  private snare: Tone.NoiseSynth | null = null;
-  private hat: Tone.MetalSynth | null = null;
-  private bass: Tone.MonoSynth | null = null;
-  private lead: Tone.Synth | null = null;
-  private fx: Tone.FMSynth | null = null;
+  private chain: FxChain | null = null;
+  private strips: Strips | null = null;
+  private voices: Voices | null = null;
+  private synthKit: SynthKit = BUILT_IN_SYNTH_KITS[0];
+  private kit: DecodedKit | null = null;
+  private kitRequest = 0;
+  private sampler: Sampler | null = null;
+  private mixer: MixerSettings = createDefaultMixer();
   private bpm = DEFAULT_BPM;
+  private filterFrequency = 18000;
+  private reverbWet = 0.28;
+  private loopBars: BarCount = 1;
+  private stepsPerBar = GRID_RESOLUTION;
+  private quantize: QuantizeResolution = DEFAULT_QUANTIZE;
+  private clipLevels = new Map<string, ClipLevel>();
+  private outputTap: MediaStreamAudioDestinationNode | null = null;
+  private meter: Tone.Meter | null = null;
+  private fft: Tone.FFT | null = null;
+  private stepRepeat: number | null = null;
+  private triggerListeners = new Set<TriggerListener>();
+  private stepListeners = new Set<StepListener>();
 
   async init(): Promise<void> {
     if (this.initialized) return;
     await Tone.start();
 
-    this.filter = new Tone.Filter({
-      frequency: 18000,
-      type: "lowpass",
-      Q: 1
-    });
-    this.reverb = new Tone.Reverb({ decay: 4, wet: 0.28 });
-    this.distortion = new Tone.Distortion({ distortion: 0.08, wet: 0.15 });
-    this.limiter = new Tone.Limiter({ threshold: -3 });
-
-    const masterChain = Tone.Destination;
-    this.filter.connect(this.reverb);
-    this.reverb.connect(this.distortion);
-    this.distortion.connect(this.limiter);
-    this.limiter.connect(masterChain);
-
-    this.kick = new Tone.MembraneSynth({
-      octaves: 3,
-      pitchDecay: 0.05,
-      envelope: { attack: 0.001, decay: 0.5, sustain: 0.01, release: 0.2 }
-    }).connect(this.filter);
-
-    this.snare = new Tone.NoiseSynth({
-      noise: { type: "pink" },
-      envelope: { attack: 0.001, decay: 0.24, sustain: 0 }
-    }).connect(this.filter);
-
-    this.hat = new Tone.MetalSynth({
-      envelope: { attack: 0.001, decay: 0.3, release: 0.4 },
-      harmonicity: 5.1,
-      modulationIndex: 32,
-      resonance: 4000
-    }).connect(this.filter);
-
-    this.bass = new Tone.MonoSynth({
-      oscillator: { type: "sawtooth" },
-      filter: { Q: 4, type: "lowpass", rolloff: -24 },
-      envelope: { attack: 0.02, decay: 0.3, sustain: 0.5, release: 0.7 }
-    }).connect(this.filter);
-
-    this.lead = new Tone.Synth({
-      oscillator: { type: "triangle" },
-      envelope: { attack: 0.04, decay: 0.3, sustain: 0.6, release: 0.4 }
-    }).connect(this.filter);
-
-    this.fx = new Tone.FMSynth({
-      harmonicity: 1.5,
-      modulationIndex: 12,
-      envelope: { attack: 0.002, decay: 0.2, sustain: 0.4, release: 0.5 }
-    }).connect(this.filter);
-
+    this.chain = createFxChain(this.filterFrequency, this.reverbWet);
+    this.chain.limiter.connect(Tone.Destination);
+    this.meter = new Tone.Meter({ normalRange: true, smoothing: 0.8 });
+    this.chain.limiter.connect(this.meter);
+    this.fft = new Tone.FFT({ size: SPECTRUM_BANDS, smoothing: 0.7 });
+    this.chain.limiter.connect(this.fft);
+    this.strips = createStrips(this.chain, this.mixer);
+    this.voices = createVoices(this.strips, this.synthKit);
+    this.sampler = createSampler(this.strips, this.kit);
+
+    // the transport runs freely; each clip's part loops on its own so layers of
+    // different lengths stay in step with each other
     Tone.Transport.bpm.value = this.bpm;
-    Tone.Transport.loop = true;
-    Tone.Transport.loopStart = 0;
-    Tone.Transport.loopEnd = "1m";
     Tone.Transport.start("+0.1");
+    this.stepRepeat = Tone.Transport.scheduleRepeat((time) => {
+      if (this.stepListeners.size === 0) return;
+      const ticks = Tone.Transport.getTicksAtTime(time);
+      Tone.Draw.schedule(() => this.stepListeners.forEach((listener) => listener(ticks)), time);
+    }, "16n");
 
     this.initialized = true;
   }
 
   dispose(): void {
-    this.kick?.dispose();
-    this.snare?.dispose();
-    this.hat?.dispose();
-    this.bass?.dispose();
-    this.lead?.dispose();
-    this.fx?.dispose();
-    this.filter?.dispose();
-    this.reverb?.dispose();
-    this.distortion?.dispose();
-    this.limiter?.dispose();
+    if (this.voices) {
+      Object.values(this.voices).forEach(({ synth }) => synth.dispose());
+    }
+    if (this.strips) {
+      Object.values(this.strips).forEach(({ channel, send }) => {
+        channel.dispose();
+        send.dispose();
+      });
+    }
+    if (this.chain) {
+      Object.values(this.chain).forEach((node) => node.dispose());
+    }
+    if (this.stepRepeat !== null) Tone.Transport.clear(this.stepRepeat);
+    this.stepRepeat = null;
+    this.meter?.dispose();
+    this.meter = null;
+    this.fft?.dispose();
+    this.fft = null;
+    this.voices = null;
+    this.sampler = null;
+    this.strips = null;
+    this.chain = null;
+    this.outputTap = null;
     this.initialized = false;
   }
 
@@ -131,14 +371,81 @@ export class AudioEngine {
 
   setFilterFrequency(value: number) {
     this.ensureReady();
-    this.filter?.frequency.rampTo(value, 0.4);
+    this.filterFrequency = value;
+    this.chain?.filter.frequency.rampTo(value, 0.4);
   }
 
   setReverbWet(value: number) {
     this.ensureReady();
-    if (this.reverb) {
-      this.reverb.wet.rampTo(value, 0.4);
+    this.reverbWet = value;
+    if (this.chain) {
+      this.chain.reverb.wet.rampTo(value, 0.4);
+    }
+  }
+
+  setMixer(mixer: MixerSettings) {
+    this.mixer = mixer;
+    if (!this.strips) return;
+    (Object.keys(mixer) as PadId[]).forEach((padId) => {
+      const strip = this.strips?.[padId];
+      if (!strip) return;
+      strip.channel.volume.rampTo(mixer[padId].volume, 0.1);
+      strip.channel.pan.rampTo(mixer[padId].pan, 0.1);
+      strip.channel.mute = isChannelSilenced(mixer, padId);
+      strip.send.gain.rampTo(mixer[padId].send, 0.1);
+    });
+  }
+
+  /** Swaps in the kit's synths, rebuilding only the pads whose settings changed. */
+  setSynthKit(kit: SynthKit) {
+    const previous = this.synthKit;
+    this.synthKit = kit;
+    const { voices, strips } = this;
+    if (!voices || !strips) return;
+    (Object.keys(kit.voices) as PadId[]).forEach((padId) => {
+      const settings = kit.voices[padId];
+      if (JSON.stringify(settings) === JSON.stringify(previous.voices[padId])) return;
+      voices[padId].synth.dispose();
+      voices[padId] = { synth: createVoice(settings).connect(strips[padId].channel), settings };
+    });
+  }
+
+  getKitId(): string | null {
+    return this.kit?.id ?? null;
+  }
+
+  /**
+   * Decodes the kit's samples and plays them in place of the synths. Pads the kit
+   * leaves empty keep their synth; null goes back to synths everywhere.
+   */
+  async loadKit(kit: SampleKit | null): Promise<void> {
+    const request = ++this.kitRequest;
+    let decoded: DecodedKit | null = null;
+    if (kit) {
+      const entries = await Promise.all(
+        (Object.keys(kit.pads) as PadId[]).map(async (padId) => {
+          const { audio, trimStart, trimEnd, gain, chokeGroup } = kit.pads[padId] as KitSample;
+          const buffer = await decodeSample(audio);
+          return [padId, { buffer, trimStart, trimEnd, gain, chokeGroup }] as const;
+        })
+      );
+      decoded = { id: kit.id, pads: Object.fromEntries(entries) };
     }
+    // a later call won while this one was decoding
+    if (request !== this.kitRequest) return;
+    this.kit = decoded;
+    if (this.strips) {
+      this.sampler = createSampler(this.strips, decoded);
+    }
+  }
+
+  setQuantize(resolution: QuantizeResolution) {
+    this.quantize = resolution;
+  }
+
+  setLoopLength(bars: BarCount, stepsPerBar = GRID_RESOLUTION) {
+    this.loopBars = bars;
+    this.stepsPerBar = stepsPerBar;
   }
 
   private ensureReady() {
@@ -147,72 +454,311 @@ export class AudioEngine {
     }
   }
 
-  triggerPad(padId: PadId, velocity = 1): QuantizedTrigger {
+  /**
+   * Plays a pad hit on the next quantize slot. A lead (in seconds) holds the hit
+   * back at least that long, so jam peers can schedule it at the same tick. The
+   * returned step counts from `originTicks`, the bar the recording layer started on.
+   */
+  triggerPad(padId: PadId, velocity = 1, pitch?: string, lead = 0, originTicks = 0): QuantizedTrigger {
     this.ensureReady();
 
-    const subdivision = Tone.Time("16n").toSeconds();
-    const now = Tone.Transport.seconds;
-    const nextTickSeconds = now % subdivision === 0 ? now : now + (subdivision - (now % subdivision));
-    const tick = Math.round(nextTickSeconds / subdivision) % GRID_RESOLUTION;
+    // Transport.ticks reads ahead by the lookahead; the player hears the audio clock
+    const tapped = Tone.Transport.getTicksAtTime(Tone.getContext().currentTime);
+    // everything stays in ticks, which keep to the bar lines the clips play on across tempo changes
+    const placed = placeTap(tapped + (lead > 0 ? Tone.Time(lead).toTicks() : 0), {
+      grid: quantizeGrid(this.quantize, this.stepsPerBar),
+      stepTicks: (Tone.Transport.PPQ * 4) / this.stepsPerBar,
+      totalSteps: clipSteps({ bars: this.loopBars, stepsPerBar: this.stepsPerBar }),
+      originTicks
+    });
+
+    // with quantize off and no lead the hit sounds immediately
+    if (this.quantize === "off" && lead === 0) {
+      this.playInstrument(this.voices, this.sampler, padId, Tone.now(), velocity, pitch);
+      return { ...placed, ticks: tapped, tapped };
+    }
+
+    this.scheduleHit(padId, placed.ticks, velocity, pitch);
+    return { ...placed, tapped };
+  }
 
+  /** Plays a hit at a set transport position, straight away if that moment has passed. */
+  scheduleHit(padId: PadId, ticks: number, velocity: number, pitch?: string) {
+    this.ensureReady();
+    if (ticks <= Tone.Transport.ticks) {
+      this.playInstrument(this.voices, this.sampler, padId, Tone.now(), velocity, pitch);
+      return;
+    }
     Tone.Transport.scheduleOnce((time) => {
-      this.playInstrument(padId, time, velocity);
-    }, nextTickSeconds);
+      this.playInstrument(this.voices, this.sampler, padId, time, velocity, pitch);
+    }, `${Math.round(ticks)}i`);
+  }
+
+  /** The master output after the limiter as a MediaStream, for recording it alongside video. */
+  captureOutput(): MediaStream {
+    this.ensureReady();
+    if (!this.outputTap) {
+      this.outputTap = Tone.getContext().createMediaStreamDestination();
+      this.chain?.limiter.connect(this.outputTap);
+    }
+    return this.outputTap.stream;
+  }
+
+  /**
+   * Calls the listener as each live hit sounds, clip and song hits included, lined up
+   * with the audio through Tone's draw loop. Returns the unsubscribe.
+   */
+  onTrigger(listener: TriggerListener): () => void {
+    this.triggerListeners.add(listener);
+    return () => {
+      this.triggerListeners.delete(listener);
+    };
+  }
+
+  /** Calls the listener on every sixteenth of the transport, as the step sounds. Returns the unsubscribe. */
+  onStep(listener: StepListener): () => void {
+    this.stepListeners.add(listener);
+    return () => {
+      this.stepListeners.delete(listener);
+    };
+  }
+
+  /** The master output's spectrum after the limiter, low bands first, each 0 to 1. */
+  getSpectrum(): number[] {
+    if (!this.fft) return [];
+    return Array.from(this.fft.getValue(), (db) => Math.min(1, Math.max(0, 1 - db / SPECTRUM_FLOOR)));
+  }
+
+  /** Level of the master output after the limiter, 0 to 1. */
+  getLevel(): number {
+    const value = this.meter?.getValue() ?? 0;
+    return Math.min(1, typeof value === "number" ? value : Math.max(...value));
+  }
+
+  /** Seconds until the next bar line, at the current tempo. */
+  secondsToNextBar(): number {
+    return Tone.Ticks(this.nextBar() - Tone.Transport.ticks).toSeconds();
+  }
 
-    return { tick, scheduledAt: nextTickSeconds };
+  getTransport(): { ticks: number; bpm: number; ppq: number } {
+    return { ticks: Tone.Transport.ticks, bpm: Tone.Transport.bpm.value, ppq: Tone.Transport.PPQ };
   }
 
-  createClip(source: LoopClip): ActiveClip {
+  /**
+   * Pulls the transport onto a shared position and tempo, leaving it alone while it
+   * is within `tolerance` seconds so small jitter does not make playback stutter.
+   */
+  alignTransport(ticks: number, bpm: number, tolerance = 0.015) {
     this.ensureReady();
-    const measureSeconds = Tone.Time("1m").toSeconds();
-    const scheduled: Array<[number, LoopEvent]> = source.events.map(
-      (evt) => [((evt.tick % GRID_RESOLUTION) / GRID_RESOLUTION) * measureSeconds, evt] as [
-        number,
-        LoopEvent
-      ]
-    );
+    if (this.bpm !== bpm || Tone.Transport.bpm.value !== bpm) {
+      this.bpm = bpm;
+      Tone.Transport.bpm.cancelScheduledValues(Tone.now());
+      Tone.Transport.bpm.value = bpm;
+    }
+    const toleranceTicks = tolerance * (bpm / 60) * Tone.Transport.PPQ;
+    if (Math.abs(Tone.Transport.ticks - ticks) > toleranceTicks) {
+      Tone.Transport.ticks = Math.round(ticks);
+    }
+  }
+
+  /** Starts the clip as a looping layer on the next bar line, alongside any running clips. */
+  createClip(source: LoopClip, level: ClipLevel = { volume: 1, muted: false }): ActiveClip {
+    this.ensureReady();
+    this.clipLevels.set(source.id, level);
+    const scheduled = this.toPartEvents(source, source.events);
     const part: Tone.Part = new Tone.Part(
       (time, value) => {
         const event = value as LoopEvent | undefined;
-        if (!event) return;
-        this.playInstrument(event.padId, time, event.velocity);
+        const current = this.clipLevels.get(source.id);
+        if (!event || !current || current.muted) return;
+        const velocity = event.velocity * current.volume;
+        this.playInstrument(this.voices, this.sampler, event.padId, time, velocity, event.pitch, {
+          clipId: source.id,
+          event
+        });
       },
       scheduled as any
     );
 
     part.loop = true;
-    part.loopEnd = "1m";
+    part.loopEnd = `${source.bars}m`;
     part.humanize = 0.01;
-    part.start(0);
+    const startTicks = this.nextBar();
+    part.start(`${startTicks}i`);
+
+    return { ...source, part, startTicks, ...level };
+  }
+
+  setClipLevel(activeClip: ActiveClip, level: ClipLevel): ActiveClip {
+    this.clipLevels.set(activeClip.id, level);
+    return { ...activeClip, ...level };
+  }
 
-    return { ...source, part };
+  updateClip(activeClip: ActiveClip, events: LoopEvent[]): ActiveClip {
+    this.ensureReady();
+    const part = activeClip.part;
+    if (part) {
+      part.clear();
+      this.toPartEvents(activeClip, events).forEach(([time, evt]) => part.add(time, evt));
+    }
+    return { ...activeClip, events };
   }
 
   stopClip(activeClip: ActiveClip) {
     activeClip.part?.stop();
     activeClip.part?.dispose();
+    this.clipLevels.delete(activeClip.id);
+  }
+
+  /** Plays the song once from the next bar line, changing tempo at each section boundary. */
+  playSong(song: Song, onEnd?: () => void, onSection?: (sectionId: string) => void): ActiveSong {
+    this.ensureReady();
+    const timeline = songTimeline(song, Tone.Transport.PPQ);
+    const start = this.nextBar();
+    const at = (ticks: number) => `${Math.round(start + ticks)}i`;
+
+    const scheduled = timeline.markers.map((marker) =>
+      Tone.Transport.schedule((time) => {
+        Tone.Transport.bpm.setValueAtTime(marker.bpm, time);
+        if (onSection) Tone.Draw.schedule(() => onSection(marker.sectionId), time);
+      }, at(marker.ticks))
+    );
+    scheduled.push(
+      Tone.Transport.scheduleOnce((time) => {
+        Tone.Transport.bpm.setValueAtTime(this.bpm, time);
+        if (onEnd) Tone.Draw.schedule(onEnd, time);
+      }, at(timeline.ticks))
+    );
+
+    const events = timeline.hits.map((hit): [Tone.Unit.Time, SongHit] => [`${Math.round(hit.ticks)}i`, hit]);
+    // the part hands each callback the second half of its [time, hit] pair
+    const part = new Tone.Part<[Tone.Unit.Time, SongHit]>((time, hit) => {
+      this.playInstrument(this.voices, this.sampler, hit.padId, time, hit.velocity, hit.pitch);
+    }, events);
+    part.start(at(0));
+
+    return { part, scheduled };
+  }
+
+  stopSong(activeSong: ActiveSong) {
+    activeSong.part.stop();
+    activeSong.part.dispose();
+    activeSong.scheduled.forEach((id) => Tone.Transport.clear(id));
+    Tone.Transport.bpm.cancelScheduledValues(Tone.now());
+    Tone.Transport.bpm.value = this.bpm;
+  }
+
+  /** Renders the whole song, through the live mixer settings, as a single file. */
+  async renderSong(
+    song: Song,
+    { synthKit = this.synthKit, bitDepth = 16, tail = 0 }: Omit<RenderOptions, "repeats"> = {}
+  ): Promise<Blob> {
+    const timeline = songTimeline(song, Tone.Transport.PPQ);
+
+    // hits are placed in seconds, so the offline transport never needs to change tempo
+    const rendered = await Tone.Offline(async ({ transport }) => {
+      const chain = createFxChain(this.filterFrequency, this.reverbWet);
+      chain.limiter.toDestination();
+      const strips = createStrips(chain, this.mixer);
+      const voices = createVoices(strips, synthKit);
+      const sampler = createSampler(strips, this.kit);
+      await Promise.all([chain.reverb.ready, chain.sendReverb.ready]);
+
+      timeline.hits.forEach((hit) => {
+        transport.schedule((time) => {
+          this.playInstrument(voices, sampler, hit.padId, time, hit.velocity, hit.pitch);
+        }, hit.seconds);
+      });
+      transport.start(0);
+    }, timeline.seconds + tail);
+
+    const data = rendered.toArray();
+    const channels = Array.isArray(data) ? data : [data];
+    return new Blob([encodeWav(channels, rendered.sampleRate, bitDepth)], { type: "audio/wav" });
+  }
+
+  /**
+   * Renders a clip through a private copy of the voices and master chain inside an
+   * OfflineAudioContext, so it works before init() and without an output device.
+   */
+  async renderClip(
+    clip: LoopClip,
+    { synthKit = this.synthKit, repeats = 1, bitDepth = 16, tail = 0 }: RenderOptions = {}
+  ): Promise<Blob> {
+    const measureSeconds = (60 / clip.bpm) * 4; // 4/4, same as the live transport
+    const stepSeconds = measureSeconds / clip.stepsPerBar;
+    const loopSeconds = measureSeconds * clip.bars;
+    const totalSteps = clipSteps(clip);
+    const feel = { swing: clip.swing, groove: clip.groove, totalSteps };
+
+    const rendered = await Tone.Offline(async ({ transport }) => {
+      transport.bpm.value = clip.bpm;
+      const chain = createFxChain(this.filterFrequency, this.reverbWet);
+      chain.limiter.toDestination();
+      const strips = createStrips(chain, clip.mixer);
+      const voices = createVoices(strips, synthKit);
+      // samples are only at hand for the kit that is currently loaded
+      const sampler = createSampler(strips, clip.kitId === this.kit?.id ? this.kit : null);
+      await Promise.all([chain.reverb.ready, chain.sendReverb.ready]);
+
+      for (let repeat = 0; repeat < repeats; repeat++) {
+        clip.events.forEach((evt) => {
+          const offset = repeat * loopSeconds + eventPosition(evt, feel) * stepSeconds;
+          transport.schedule((time) => {
+            this.playInstrument(voices, sampler, evt.padId, time, evt.velocity, evt.pitch);
+          }, offset);
+        });
+      }
+      transport.start(0);
+    }, loopSeconds * repeats + tail);
+
+    const data = rendered.toArray();
+    const channels = Array.isArray(data) ? data : [data];
+    return new Blob([encodeWav(channels, rendered.sampleRate, bitDepth)], { type: "audio/wav" });
+  }
+
+  /** Transport ticks of the next bar line. */
+  private nextBar(): number {
+    const barTicks = Tone.Transport.PPQ * 4;
+    return Math.ceil(Tone.Transport.ticks / barTicks) * barTicks;
+  }
+
+  private toPartEvents(clip: LoopClip, events: LoopEvent[]): Array<[number, LoopEvent]> {
+    const stepSeconds = Tone.Time("1m").toSeconds() / clip.stepsPerBar;
+    const feel = { swing: clip.swing, groove: clip.groove, totalSteps: clipSteps(clip) };
+    return events.map(
+      (evt) => [eventPosition(evt, feel) * stepSeconds, evt] as [number, LoopEvent]
+    );
   }
 
-  private playInstrument(padId: PadId, time: number, velocity: number) {
-    switch (padId) {
-      case "kick":
-        this.kick?.triggerAttackRelease("C1", "8n", time, velocity);
-        break;
-      case "snare":
-        this.snare?.triggerAttackRelease("8n", time, velocity);
-        break;
-      case "hat":
-        this.hat?.triggerAttackRelease("16n", time, velocity);
-        break;
-      case "bass":
-        this.bass?.triggerAttackRelease("C2", "8n", time, velocity * 0.9);
-        break;
-      case "lead":
-        this.lead?.triggerAttackRelease("C4", "8n", time, velocity * 0.8);
-        break;
-      case "fx":
-        this.fx?.triggerAttackRelease("G4", "8n", time, velocity * 0.6);
-        break;
+  private playInstrument(
+    voices: Voices | null,
+    sampler: Sampler | null,
+    padId: PadId,
+    time: number,
+    velocity: number,
+    pitch?: string,
+    source?: TriggerSource
+  ) {
+    // offline renders bring their own voices and stay silent to listeners
+    if (voices === this.voices && this.triggerListeners.size > 0) {
+      Tone.Draw.schedule(
+        () => this.triggerListeners.forEach((listener) => listener(padId, velocity, source)),
+        time
+      );
+    }
+    const sample = sampler?.kit.pads[padId];
+    if (sampler && sample) {
+      playSample(sampler, sample, padId, time, velocity);
+      return;
+    }
+    const voice = voices?.[padId];
+    if (!voice) return;
+    const { synth, settings } = voice;
+    if (synth instanceof Tone.NoiseSynth) {
+      synth.triggerAttackRelease(settings.length, time, velocity * settings.level);
+    } else {
+      synth.triggerAttackRelease(pitch ?? settings.note, settings.length, time, velocity * settings.level);
     }
   }
 }
@@ -266,10 +812,21 @@ export const DEFAULT_CLIPS: LoopClip[] = [
     title: "Nova Drift",
     author: "RayPulse",
     bpm: DEFAULT_BPM,
+    bars: 1,
+    stepsPerBar: GRID_RESOLUTION,
+    key: DEFAULT_KEY,
+    scale: DEFAULT_SCALE,
+    mixer: createDefaultMixer(),
+    kitId: null,
+    synthKitId: DEFAULT_SYNTH_KIT_ID,
+    swing: DEFAULT_SWING,
+    groove: DEFAULT_GROOVE,
+    quantize: DEFAULT_QUANTIZE,
     color: "#ff6ac1",
     createdAt: Date.now() - 1000 * 60 * 60 * 6,
     likes: 214,
     remixes: 24,
+    parentId: null,
     events: [
       { tick: 0, padId: "kick", velocity: 1 },
       { tick: 4, padId: "snare", velocity: 0.9 },
@@ -290,10 +847,21 @@ export const DEFAULT_CLIPS: LoopClip[] = [
     title: "Cosmic Loop",
     author: "Luna",
     bpm: 112,
+    bars: 1,
+    stepsPerBar: GRID_RESOLUTION,
+    key: DEFAULT_KEY,
+    scale: DEFAULT_SCALE,
+    mixer: createDefaultMixer(),
+    kitId: null,
+    synthKitId: DEFAULT_SYNTH_KIT_ID,
+    swing: DEFAULT_SWING,
+    groove: DEFAULT_GROOVE,
+    quantize: DEFAULT_QUANTIZE,
     color: "#5ee7ff",
     createdAt: Date.now() - 1000 * 60 * 60 * 24,
     likes: 189,
     remixes: 31,
+    parentId: null,
     events: [
       { tick: 0, padId: "kick", velocity: 1 },
       { tick: 4, padId: "kick", velocity: 0.9 },
@@ -0,0 +1,210 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import type { LoopClip } from "./AudioEngine";
+import { BATTLE_BARS, BATTLE_ROUNDS, type Battle, type BattleSide, type BattleTurn } from "@/lib/battle";
+
+export type BattleLive = {
+  battleId: string;
+  turn: BattleTurn | null; // null until the first turn starts on the next bar
+};
+
+type BattlePanelProps = {
+  clips: LoopClip[];
+  battles: Battle[];
+  votes: Record<string, BattleSide>;
+  live: BattleLive | null;
+  onStart: (contenders: [LoopClip, LoopClip], barsPerTurn: number, rounds: number) => void;
+  onPlay: (battle: Battle) => void;
+  onStop: () => void;
+  onVote: (battle: Battle, side: BattleSide) => void;
+  onClose: (battle: Battle) => void;
+};
+
+const SIDES: BattleSide[] = [0, 1];
+const SIDE_LABELS = ["A", "B"];
+
+function battleStatus(battle: Battle, live: BattleLive | null): string {
+  if (live?.battleId !== battle.id) {
+    return `${battle.rounds} round${battle.rounds > 1 ? "s" : ""} · ${battle.barsPerTurn} bar turns`;
+  }
+  if (!live.turn) return "Starting on the next bar";
+  return `Round ${live.turn.round} of ${battle.rounds} · ${SIDE_LABELS[live.turn.side]} on the mic`;
+}
+
+const selectClass =
+  "min-w-0 flex-1 rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-xs text-white focus:border-neo-cyan focus:outline-none";
+
+export default function BattlePanel({
+  clips,
+  battles,
+  votes,
+  live,
+  onStart,
+  onPlay,
+  onStop,
+  onVote,
+  onClose
+}: BattlePanelProps) {
+  const [picks, setPicks] = useState<[string, string]>(["", ""]);
+  const [barsPerTurn, setBarsPerTurn] = useState(2);
+  const [rounds, setRounds] = useState(2);
+
+  const pickedClip = (side: BattleSide) =>
+    clips.find((clip) => clip.id === picks[side]) ?? clips[side] ?? null;
+  const contenders = SIDES.map(pickedClip);
+  const [sideA, sideB] = contenders;
+  const ready = sideA !== null && sideB !== null && sideA.id !== sideB.id;
+
+  const open = battles.filter((battle) => battle.status === "open");
+  const history = battles.filter((battle) => battle.status === "closed");
+
+  return (
+    <div className="mt-6 rounded-3xl border border-white/10 bg-black/30 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs uppercase tracking-[0.35em] text-white/60">Beat Battle</h2>
+        {live && (
+          <button
+            onClick={onStop}
+            className="rounded-xl border border-white/10 bg-white/5 px-3 py-1 text-[10px] uppercase tracking-[0.35em] text-white/70 hover:text-white"
+          >
+            Stop
+          </button>
+        )}
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {SIDES.map((side) => (
+          <select
+            key={side}
+            aria-label={`Side ${SIDE_LABELS[side]}`}
+            className={selectClass}
+            value={contenders[side]?.id ?? ""}
+            onChange={(event) =>
+              setPicks((prev) => (side === 0 ? [event.target.value, prev[1]] : [prev[0], event.target.value]))
+            }
+          >
+            {clips.map((clip) => (
+              <option key={clip.id} value={clip.id}>
+                {SIDE_LABELS[side]}: {clip.title} by {clip.author}
+              </option>
+            ))}
+          </select>
+        ))}
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-[10px] uppercase tracking-[0.2em] text-white/50">
+        <label className="flex items-center gap-1">
+          Turns
+          <select
+            className={selectClass}
+            value={barsPerTurn}
+            onChange={(event) => setBarsPerTurn(Number(event.target.value))}
+          >
+            {BATTLE_BARS.map((bars) => (
+              <option key={bars} value={bars}>
+                {bars} bar{bars > 1 ? "s" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Rounds
+          <select
+            className={selectClass}
+            value={rounds}
+            onChange={(event) => setRounds(Number(event.target.value))}
+          >
+            {BATTLE_ROUNDS.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          disabled={!ready}
+          onClick={() => sideA && sideB && onStart([sideA, sideB], barsPerTurn, rounds)}
+          className="ml-auto rounded-xl border border-neo-pink/80 bg-neo-pink/20 px-4 py-2 text-[10px] uppercase tracking-[0.35em] text-white transition hover:bg-neo-pink/30 disabled:opacity-40"
+        >
+          Start Battle
+        </button>
+      </div>
+
+      {open.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {open.map((battle) => {
+            const playing = live?.battleId === battle.id;
+            const voted = votes[battle.id];
+            return (
+              <li key={battle.id} className="rounded-2xl border border-white/10 bg-white/5 p-3">
+                <div className="grid grid-cols-2 gap-2">
+                  {SIDES.map((side) => {
+                    const clip = battle.contenders[side];
+                    const onTurn = playing && live?.turn?.side === side;
+                    return (
+                      <div
+                        key={side}
+                        className={clsx(
+                          "rounded-xl border p-2 transition",
+                          onTurn ? "border-neo-cyan bg-neo-cyan/20" : "border-white/10 bg-black/20"
+                        )}
+                      >
+                        <p className="truncate text-xs font-semibold text-white">
+                          {SIDE_LABELS[side]}: {clip.title}
+                        </p>
+                        <p className="truncate text-[10px] text-white/50">by {clip.author}</p>
+                        <button
+                          disabled={voted !== undefined}
+                          onClick={() => onVote(battle, side)}
+                          className={clsx(
+                            "mt-2 w-full rounded-lg border py-1 text-[10px] uppercase tracking-[0.2em] transition disabled:cursor-default",
+                            voted === side
+                              ? "border-neo-yellow bg-neo-yellow/20 text-neo-yellow"
+                              : "border-white/10 bg-white/5 text-white/70 hover:text-white disabled:opacity-50"
+                          )}
+                        >
+                          Vote · {battle.votes[side]}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="mt-2 flex items-center gap-2 text-[10px] uppercase tracking-[0.2em] text-white/50">
+                  <span>{battleStatus(battle, live)}</span>
+                  <button onClick={() => onPlay(battle)} className="ml-auto hover:text-white">
+                    {playing ? "Restart" : "Play"}
+                  </button>
+                  <button onClick={() => onClose(battle)} className="text-neo-pink hover:text-white">
+                    Close Voting
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {history.length > 0 && (
+        <div className="mt-4">
+          <p className="text-[10px] uppercase tracking-[0.35em] text-white/40">History</p>
+          <ul className="mt-2 space-y-1">
+            {history.map((battle) => (
+              <li key={battle.id} className="flex items-center gap-2 text-xs text-white/60">
+                <span className="truncate">
+                  {battle.contenders[0].title} vs {battle.contenders[1].title}
+                </span>
+                <span className="ml-auto shrink-0 text-white/80">
+                  {battle.winner === null ? "Draw" : `${battle.contenders[battle.winner].title} wins`}{" "}
+                  <span className="text-white/40">
+                    {battle.votes[0]}–{battle.votes[1]}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
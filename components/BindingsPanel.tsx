@@ -0,0 +1,103 @@
+"use client";
+
+import clsx from "clsx";
+import { PAD_META, type PadId } from "./AudioEngine";
+import {
+  TRANSPORT_ACTIONS,
+  buttonLabel,
+  inputFor,
+  keyLabel,
+  type BindingTarget,
+  type InputBindings,
+  type TransportAction
+} from "@/lib/inputBindings";
+
+type BindingsPanelProps = {
+  pads: PadId[];
+  bindings: InputBindings;
+  learning: BindingTarget | null;
+  gamepads: string[];
+  onLearn: (target: BindingTarget | null) => void;
+  onToggleHints: () => void;
+  onReset: () => void;
+};
+
+const actionLabels: Record<TransportAction, string> = {
+  playStop: "Play / Stop",
+  clear: "Clear",
+  save: "Save",
+  preview: "Preview",
+  bpmUp: "BPM +",
+  bpmDown: "BPM −"
+};
+
+export default function BindingsPanel({
+  pads,
+  bindings,
+  learning,
+  gamepads,
+  onLearn,
+  onToggleHints,
+  onReset
+}: BindingsPanelProps) {
+  const targets: Array<{ target: BindingTarget; label: string }> = [
+    ...pads.map((padId) => ({ target: padId, label: PAD_META[padId].label })),
+    ...TRANSPORT_ACTIONS.map((action) => ({ target: action, label: actionLabels[action] }))
+  ];
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/10 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm uppercase tracking-[0.35em] text-white/60">Keys &amp; Gamepad</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={onToggleHints}
+            className={clsx(
+              "rounded-lg border px-3 py-1 text-[10px] uppercase tracking-[0.2em] transition",
+              bindings.hints
+                ? "border-neo-cyan/60 bg-neo-cyan/20 text-white"
+                : "border-white/10 bg-white/5 text-white/60"
+            )}
+          >
+            Hints {bindings.hints ? "On" : "Off"}
+          </button>
+          <button
+            onClick={onReset}
+            className="rounded-lg border border-white/10 bg-white/5 px-3 py-1 text-[10px] uppercase tracking-[0.2em] text-white/60 transition hover:text-white"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+      <p className="mt-2 text-[10px] text-white/40">
+        {gamepads.length > 0
+          ? `${gamepads[0]} · hold RT to accent, LT to soften`
+          : "Press any button on a connected gamepad to wake it up."}
+      </p>
+      <div className="mt-4 grid grid-cols-3 gap-2">
+        {targets.map(({ target, label }) => {
+          const key = inputFor(bindings.keys, target);
+          const button = inputFor(bindings.buttons, target);
+          const bound = [key && keyLabel(key), button && buttonLabel(button)].filter(Boolean).join(" · ");
+          return (
+            <button
+              key={target}
+              onClick={() => onLearn(learning === target ? null : target)}
+              className={clsx(
+                "rounded-xl border px-2 py-2 text-[10px] uppercase tracking-[0.2em]",
+                learning === target
+                  ? "animate-pulse border-neo-pink bg-neo-pink/20 text-white"
+                  : "border-white/10 bg-white/5 text-white/60"
+              )}
+            >
+              {label}
+              <span className="block normal-case tracking-normal text-white/40">
+                {learning === target ? "Press a key or button" : bound || "Unbound"}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
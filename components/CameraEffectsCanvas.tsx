@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useRef, type RefObject } from "react";
+import type { AudioEngine } from "./AudioEngine";
+import {
+  createReactivity,
+  decayReactivity,
+  reactToHit,
+  type CameraPreset
+} from "@/lib/cameraEffects";
+import { EffectsRenderer } from "@/lib/effectsRenderer";
+
+type CameraEffectsCanvasProps = {
+  videoRef: RefObject<HTMLVideoElement>;
+  canvasRef: RefObject<HTMLCanvasElement>;
+  engine: AudioEngine;
+  preset: CameraPreset;
+  sweep: number; // 0 with the filter closed, 1 fully open
+  onUnsupported: () => void;
+};
+
+const MAX_CANVAS_WIDTH = 1280;
+
+/** The camera feed redrawn through the preset's shader, pulsing with the music. */
+export default function CameraEffectsCanvas({
+  videoRef,
+  canvasRef,
+  engine,
+  preset,
+  sweep,
+  onUnsupported
+}: CameraEffectsCanvasProps) {
+  // the render loop runs for the life of the canvas, so it reads the latest props from here
+  const latestRef = useRef({ preset, sweep, onUnsupported });
+  latestRef.current = { preset, sweep, onUnsupported };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let renderer: EffectsRenderer;
+    try {
+      renderer = new EffectsRenderer(canvas);
+    } catch (err) {
+      console.error(err);
+      latestRef.current.onUnsupported();
+      return;
+    }
+
+    let reactivity = createReactivity();
+    const unsubscribe = engine.onTrigger((padId, velocity) => {
+      reactivity = reactToHit(reactivity, padId, velocity);
+    });
+    let frame = 0;
+    let last = performance.now();
+
+    const tick = (time: number) => {
+      frame = requestAnimationFrame(tick);
+      const { clientWidth, clientHeight } = canvas;
+      const factor = Math.min(window.devicePixelRatio || 1, MAX_CANVAS_WIDTH / Math.max(1, clientWidth));
+      const width = Math.round(clientWidth * factor);
+      const height = Math.round(clientHeight * factor);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      reactivity = {
+        ...decayReactivity(reactivity, Math.max(0, time - last) / 1000),
+        level: engine.getLevel(),
+        sweep: latestRef.current.sweep
+      };
+      last = time;
+      const video = videoRef.current;
+      if (video) renderer.render(video, latestRef.current.preset, reactivity, time / 1000);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      unsubscribe();
+      renderer.dispose();
+    };
+  }, [canvasRef, engine, videoRef]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />;
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import type { LoopClip } from "./AudioEngine";
+import {
+  CHALLENGE_PASSES,
+  TIMING_RATINGS,
+  challengeResult,
+  type Challenge,
+  type TimingRating
+} from "@/lib/rhythm";
+
+type ChallengePanelProps = {
+  clips: LoopClip[];
+  challenge: Challenge | null; // the run in progress
+  finished: Challenge | null; // the last run to end
+  onStart: (clip: LoopClip) => void;
+  onStop: () => void;
+};
+
+const RATINGS = Object.keys(TIMING_RATINGS) as TimingRating[];
+
+const ratingColors: Record<TimingRating, string> = {
+  perfect: "text-neo-cyan",
+  great: "text-neo-yellow",
+  ok: "text-white/70",
+  miss: "text-neo-pink"
+};
+
+function Tally({ challenge }: { challenge: Challenge }) {
+  const { counts } = challengeResult(challenge);
+  return (
+    <div className="flex flex-wrap gap-3 text-[10px] uppercase tracking-[0.2em]">
+      {RATINGS.map((rating) => (
+        <span key={rating} className={ratingColors[rating]}>
+          {TIMING_RATINGS[rating].label} {counts[rating]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function ChallengePanel({ clips, challenge, finished, onStart, onStop }: ChallengePanelProps) {
+  const [clipId, setClipId] = useState(clips[0]?.id ?? "");
+  const clip = clips.find((item) => item.id === clipId) ?? clips[0];
+  const played = challenge ? challenge.targets.filter((target) => target.rating !== null).length : 0;
+  const finishedClip = finished && clips.find((item) => item.id === finished.clipId);
+
+  return (
+    <div className="mt-6 rounded-3xl border border-white/10 bg-black/30 p-4 backdrop-blur">
+      <h2 className="text-xs uppercase tracking-[0.35em] text-white/60">Follow the Pattern</h2>
+      <div className="mt-3 flex gap-2">
+        <select
+          aria-label="Challenge loop"
+          value={clip?.id ?? ""}
+          disabled={challenge !== null}
+          onChange={(event) => setClipId(event.target.value)}
+          className="min-w-0 flex-1 rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-xs text-white focus:border-neo-cyan focus:outline-none"
+        >
+          {clips.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.title} · {item.bpm} bpm
+            </option>
+          ))}
+        </select>
+        <button
+          disabled={!clip}
+          onClick={() => (challenge ? onStop() : clip && onStart(clip))}
+          className="rounded-xl border border-neo-cyan/80 bg-neo-cyan/20 px-4 py-2 text-[10px] uppercase tracking-[0.35em] text-white transition hover:bg-neo-cyan/30 disabled:opacity-40"
+        >
+          {challenge ? "Stop" : "Start"}
+        </button>
+      </div>
+
+      {challenge ? (
+        <div className="mt-3 space-y-2">
+          <p className="text-[10px] text-white/50">
+            Play along from the next bar for {CHALLENGE_PASSES} loops · {played} of{" "}
+            {challenge.targets.length} hits
+          </p>
+          <div className="h-1 overflow-hidden rounded-full bg-white/10">
+            <div
+              className="h-full bg-neo-cyan transition-all"
+              style={{ width: `${(played / Math.max(1, challenge.targets.length)) * 100}%` }}
+            />
+          </div>
+          <Tally challenge={challenge} />
+        </div>
+      ) : (
+        finished && (
+          <div className="mt-3 space-y-2">
+            <p className="text-xs text-white/70">
+              {finishedClip ? finishedClip.title : "Last run"} ·{" "}
+              <span className="font-semibold text-white">
+                {Math.round(challengeResult(finished).accuracy * 100)}% accuracy
+              </span>
+            </p>
+            <Tally challenge={finished} />
+          </div>
+        )
+      )}
+    </div>
+  );
+}
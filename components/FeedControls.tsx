@@ -0,0 +1,122 @@
+"use client";
+
+import clsx from "clsx";
+import { PAD_META, type PadId } from "./AudioEngine";
+import { DEFAULT_FEED_FILTER, FEED_SORTS, isFeedFiltered, type FeedFilter, type FeedSort } from "@/lib/feed";
+
+type FeedControlsProps = {
+  pads: PadId[];
+  authors: string[];
+  sort: FeedSort;
+  filter: FeedFilter;
+  matches: number;
+  onSortChange: (sort: FeedSort) => void;
+  onFilterChange: (filter: FeedFilter) => void;
+};
+
+const fieldClass =
+  "rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-xs text-white placeholder:text-white/40 focus:border-neo-cyan focus:outline-none";
+
+const parseBpm = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export default function FeedControls({
+  pads,
+  authors,
+  sort,
+  filter,
+  matches,
+  onSortChange,
+  onFilterChange
+}: FeedControlsProps) {
+  const update = (patch: Partial<FeedFilter>) => onFilterChange({ ...filter, ...patch });
+
+  const togglePad = (padId: PadId) =>
+    update({
+      pads: filter.pads.includes(padId) ? filter.pads.filter((id) => id !== padId) : [...filter.pads, padId]
+    });
+
+  return (
+    <div className="mt-3 rounded-3xl border border-white/10 bg-white/5 p-3 backdrop-blur">
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          className={clsx(fieldClass, "min-w-[10rem] flex-1")}
+          placeholder="Search titles"
+          value={filter.query}
+          onChange={(event) => update({ query: event.target.value })}
+        />
+        <select
+          aria-label="Sort"
+          className={fieldClass}
+          value={sort}
+          onChange={(event) => onSortChange(event.target.value as FeedSort)}
+        >
+          {(Object.keys(FEED_SORTS) as FeedSort[]).map((id) => (
+            <option key={id} value={id}>
+              {FEED_SORTS[id]}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Author"
+          className={fieldClass}
+          value={filter.author ?? ""}
+          onChange={(event) => update({ author: event.target.value || null })}
+        >
+          <option value="">All authors</option>
+          {authors.map((author) => (
+            <option key={author} value={author}>
+              {author}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          aria-label="Minimum BPM"
+          className={clsx(fieldClass, "w-20")}
+          placeholder="Min bpm"
+          min={1}
+          value={filter.minBpm ?? ""}
+          onChange={(event) => update({ minBpm: parseBpm(event.target.value) })}
+        />
+        <input
+          type="number"
+          aria-label="Maximum BPM"
+          className={clsx(fieldClass, "w-20")}
+          placeholder="Max bpm"
+          min={1}
+          value={filter.maxBpm ?? ""}
+          onChange={(event) => update({ maxBpm: parseBpm(event.target.value) })}
+        />
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-1">
+        {pads.map((padId) => (
+          <button
+            key={padId}
+            onClick={() => togglePad(padId)}
+            aria-pressed={filter.pads.includes(padId)}
+            className={clsx(
+              "rounded-lg border px-2 py-1 text-[10px] uppercase tracking-widest transition",
+              filter.pads.includes(padId)
+                ? "border-neo-purple bg-neo-purple/30 text-white"
+                : "border-white/10 bg-white/5 text-white/50 hover:text-white"
+            )}
+          >
+            {PAD_META[padId].label}
+          </button>
+        ))}
+        <span className="ml-auto text-[10px] uppercase tracking-[0.35em] text-white/40">
+          {matches} clip{matches === 1 ? "" : "s"}
+        </span>
+        {isFeedFiltered(filter) && (
+          <button
+            onClick={() => onFilterChange(DEFAULT_FEED_FILTER)}
+            className="text-[10px] uppercase tracking-[0.35em] text-white/50 hover:text-white"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
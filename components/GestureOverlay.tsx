@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useRef, useState, type RefObject } from "react";
+import clsx from "clsx";
+import { PAD_META, type PadId } from "./AudioEngine";
+import {
+  GESTURE_ZONES,
+  MOTION_FRAME_HEIGHT,
+  MOTION_FRAME_WIDTH,
+  MotionDetector,
+  captureFrame
+} from "@/lib/motion";
+
+type GestureOverlayProps = {
+  videoRef: RefObject<HTMLVideoElement>;
+  onPad: (padId: PadId, velocity: number) => void;
+  onSweep?: (x: number) => void; // 0 at the left edge of the view, 1 at the right
+};
+
+const FRAME_INTERVAL = 50; // ms between analysed frames
+
+const sameZones = (a: PadId[], b: PadId[]) => a.length === b.length && a.every((padId, i) => padId === b[i]);
+
+/** Pad zones over the camera view, fired by hands moving into them. Mounted only while enabled. */
+export default function GestureOverlay({ videoRef, onPad, onSweep }: GestureOverlayProps) {
+  const viewRef = useRef<HTMLDivElement | null>(null);
+  const [active, setActive] = useState<PadId[]>([]);
+  // the loop runs for the life of the overlay, so it reads the latest callbacks from here
+  const handlersRef = useRef({ onPad, onSweep });
+  handlersRef.current = { onPad, onSweep };
+
+  useEffect(() => {
+    const canvas = document.createElement("canvas");
+    canvas.width = MOTION_FRAME_WIDTH;
+    canvas.height = MOTION_FRAME_HEIGHT;
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) return;
+    const detector = new MotionDetector();
+    let frame = 0;
+    let last = 0;
+
+    const tick = (time: number) => {
+      frame = requestAnimationFrame(tick);
+      const video = videoRef.current;
+      const view = viewRef.current;
+      if (!video || !view || time - last < FRAME_INTERVAL) return;
+      last = time;
+      const captured = captureFrame(video, context, view.clientWidth / Math.max(1, view.clientHeight));
+      if (!captured) return;
+      const { hits, active: moving, center } = detector.process(captured, time);
+      hits.forEach(({ padId, velocity }) => handlersRef.current.onPad(padId, velocity));
+      if (center) handlersRef.current.onSweep?.(center.x);
+      setActive((prev) => (sameZones(prev, moving) ? prev : moving));
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [videoRef]);
+
+  return (
+    <div ref={viewRef} className="pointer-events-none absolute inset-0 z-[5]">
+      {GESTURE_ZONES.map((zone) => (
+        <div
+          key={zone.padId}
+          className={clsx(
+            "absolute flex items-end justify-center rounded-3xl border-2 border-dashed pb-2 transition-colors duration-150",
+            active.includes(zone.padId) ? "border-neo-cyan bg-neo-cyan/20" : "border-white/25 bg-white/5"
+          )}
+          style={{
+            left: `${zone.x * 100}%`,
+            top: `${zone.y * 100}%`,
+            width: `${zone.width * 100}%`,
+            height: `${zone.height * 100}%`
+          }}
+        >
+          <span className="text-[10px] uppercase tracking-[0.35em] text-white/70">
+            {PAD_META[zone.padId].label}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import { motion } from "framer-motion";
+import { PAD_META, type PadId } from "./AudioEngine";
+import type { JamPeer, JamStatus } from "@/lib/jam";
+
+export type JamActivity = Record<string, { padId: PadId; at: number }>;
+
+type JamPanelProps = {
+  status: JamStatus;
+  peers: JamPeer[];
+  selfId: string | null;
+  activity: JamActivity;
+  onJoin: (room: string, name: string) => void;
+  onLeave: () => void;
+};
+
+const statusLabels: Record<JamStatus, string> = {
+  connecting: "Connecting",
+  open: "Live",
+  closed: "Offline"
+};
+
+const fieldClass =
+  "min-w-0 flex-1 rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-xs text-white placeholder:text-white/40 focus:border-neo-cyan focus:outline-none";
+
+export default function JamPanel({ status, peers, selfId, activity, onJoin, onLeave }: JamPanelProps) {
+  const [room, setRoom] = useState("main");
+  const [name, setName] = useState("");
+  const joined = status !== "closed";
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/10 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm uppercase tracking-[0.35em] text-white/60">Jam Session</h2>
+        <span
+          className={clsx(
+            "text-[10px] uppercase tracking-[0.35em]",
+            status === "open" ? "text-neo-cyan" : "text-white/40"
+          )}
+        >
+          {statusLabels[status]}
+        </span>
+      </div>
+      <div className="mt-4 flex gap-2">
+        <input
+          className={fieldClass}
+          placeholder="Room"
+          value={room}
+          disabled={joined}
+          onChange={(event) => setRoom(event.target.value)}
+        />
+        <input
+          className={fieldClass}
+          placeholder="Your name"
+          value={name}
+          disabled={joined}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button
+          onClick={() => (joined ? onLeave() : onJoin(room.trim() || "main", name.trim() || "Guest"))}
+          className={clsx(
+            "rounded-lg border px-3 py-1 text-[10px] uppercase tracking-[0.2em]",
+            joined
+              ? "border-white/10 bg-white/5 text-white/60 hover:text-white"
+              : "border-neo-cyan/80 bg-neo-cyan/20 text-white"
+          )}
+        >
+          {joined ? "Leave" : "Join"}
+        </button>
+      </div>
+      {peers.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {peers.map((peer) => {
+            const hit = activity[peer.id];
+            return (
+              <li key={peer.id} className="flex items-center gap-2 text-xs text-white/70">
+                <span className="h-2 w-2 rounded-full" style={{ background: peer.color }} />
+                <span className="truncate">
+                  {peer.name}
+                  {peer.id === selfId && <span className="text-white/40"> (you)</span>}
+                </span>
+                {hit && (
+                  <motion.span
+                    key={hit.at}
+                    initial={{ opacity: 1, scale: 1.2 }}
+                    animate={{ opacity: 0.4, scale: 1 }}
+                    transition={{ duration: 0.6 }}
+                    className="ml-auto text-[10px] uppercase tracking-widest"
+                    style={{ color: peer.color }}
+                  >
+                    {PAD_META[hit.padId].label}
+                  </motion.span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <p className="mt-3 text-[10px] text-white/40">
+        Everyone in a room shares the tempo, the transport and the captured pattern. Start the relay
+        with <code>node server/jamRelay.mjs</code>.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import clsx from "clsx";
+import { PAD_META, type PadId } from "./AudioEngine";
+import { CHOKE_GROUPS, SAMPLE_ACCEPT, createSample, type KitSample, type SampleKit } from "@/lib/kits";
+
+type KitPanelProps = {
+  pads: PadId[];
+  kits: SampleKit[];
+  kitId: string | null;
+  onSelect: (kitId: string | null) => void;
+  onCreate: () => void;
+  onChange: (kit: SampleKit) => void;
+  onDelete: (kit: SampleKit) => void;
+};
+
+const numberClass =
+  "w-14 rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-xs text-white focus:border-neo-cyan focus:outline-none";
+
+export default function KitPanel({ pads, kits, kitId, onSelect, onCreate, onChange, onDelete }: KitPanelProps) {
+  const kit = kits.find((item) => item.id === kitId) ?? null;
+
+  const setSample = (padId: PadId, sample: KitSample | null) => {
+    if (!kit) return;
+    const { [padId]: _previous, ...rest } = kit.pads;
+    onChange({ ...kit, pads: sample ? { ...rest, [padId]: sample } : rest });
+  };
+
+  const updateSample = (padId: PadId, patch: Partial<KitSample>) => {
+    const sample = kit?.pads[padId];
+    if (sample) setSample(padId, { ...sample, ...patch });
+  };
+
+  const handleFile = (padId: PadId, file: File | undefined) => {
+    if (!file) return;
+    try {
+      setSample(padId, createSample(file));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/10 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm uppercase tracking-[0.35em] text-white/60">Sample Kit</h2>
+        <div className="flex gap-2">
+          <select
+            className="rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-xs text-white focus:border-neo-cyan focus:outline-none"
+            value={kitId ?? ""}
+            onChange={(event) => onSelect(event.target.value || null)}
+          >
+            <option value="">Built-in synths</option>
+            {kits.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onCreate}
+            className="rounded-lg border border-neo-cyan/60 bg-neo-cyan/20 px-2 py-1 text-[10px] uppercase tracking-[0.2em] text-white"
+          >
+            New
+          </button>
+        </div>
+      </div>
+      {kit ? (
+        <>
+          <div className="mt-4 flex gap-2">
+            <input
+              className="flex-1 rounded-xl border border-white/20 bg-black/30 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:border-neo-cyan focus:outline-none"
+              placeholder="Kit name"
+              value={kit.name}
+              onChange={(event) => onChange({ ...kit, name: event.target.value })}
+            />
+            <button
+              onClick={() => onDelete(kit)}
+              className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-[10px] uppercase tracking-[0.2em] text-white/60 hover:text-white"
+            >
+              Delete
+            </button>
+          </div>
+          <div className="mt-4 flex flex-col gap-3">
+            {pads.map((padId) => {
+              const sample = kit.pads[padId];
+              return (
+                <div key={padId} className="flex flex-wrap items-center gap-2">
+                  <span className="w-12 text-[10px] uppercase tracking-widest text-white/70">
+                    {PAD_META[padId].label}
+                  </span>
+                  <label
+                    className={clsx(
+                      "flex-1 cursor-pointer truncate rounded-lg border px-2 py-1 text-xs",
+                      sample ? "border-neo-cyan/60 bg-neo-cyan/10 text-white" : "border-white/10 bg-white/5 text-white/40"
+                    )}
+                  >
+                    {sample?.name ?? "Synth • load sample"}
+                    <input
+                      type="file"
+                      accept={SAMPLE_ACCEPT}
+                      className="hidden"
+                      onChange={(event) => {
+                        handleFile(padId, event.target.files?.[0]);
+                        event.target.value = "";
+                      }}
+                    />
+                  </label>
+                  {sample && (
+                    <>
+                      <input
+                        aria-label={`${PAD_META[padId].label} trim start`}
+                        title="Trim start (s)"
+                        className={numberClass}
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={sample.trimStart}
+                        onChange={(event) => updateSample(padId, { trimStart: Math.max(0, Number(event.target.value)) })}
+                      />
+                      <input
+                        aria-label={`${PAD_META[padId].label} trim end`}
+                        title="Trim end (s), empty plays to the end"
+                        className={numberClass}
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={sample.trimEnd ?? ""}
+                        onChange={(event) =>
+                          updateSample(padId, {
+                            trimEnd: event.target.value === "" ? null : Math.max(0, Number(event.target.value))
+                          })
+                        }
+                      />
+                      <input
+                        aria-label={`${PAD_META[padId].label} gain`}
+                        title={`Gain ${sample.gain} dB`}
+                        className="h-1 w-16 cursor-pointer appearance-none rounded-lg bg-white/20 accent-neo-pink"
+                        type="range"
+                        min={-24}
+                        max={6}
+                        step={1}
+                        value={sample.gain}
+                        onChange={(event) => updateSample(padId, { gain: Number(event.target.value) })}
+                      />
+                      <select
+                        aria-label={`${PAD_META[padId].label} choke group`}
+                        title="Choke group"
+                        className="rounded-lg border border-white/20 bg-black/30 px-1 py-1 text-xs text-white"
+                        value={sample.chokeGroup ?? ""}
+                        onChange={(event) =>
+                          updateSample(padId, {
+                            chokeGroup: event.target.value === "" ? null : Number(event.target.value)
+                          })
+                        }
+                      >
+                        <option value="">No choke</option>
+                        {CHOKE_GROUPS.map((group) => (
+                          <option key={group} value={group}>
+                            Choke {group}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        aria-label={`Clear ${PAD_META[padId].label} sample`}
+                        onClick={() => setSample(padId, null)}
+                        className="text-xs text-white/40 hover:text-white"
+                      >
+                        ×
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      ) : (
+        <p className="mt-4 text-xs text-white/40">Create a kit to load your own WAV, MP3 or OGG hits per pad.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import clsx from "clsx";
+import { PAD_META, type PadId } from "./AudioEngine";
+import {
+  MidiInputController,
+  loadMidiMapping,
+  requestMidiAccess,
+  saveMidiMapping,
+  type MidiControlTarget,
+  type MidiDevice,
+  type MidiLearnTarget,
+  type MidiMapping
+} from "@/lib/midiInput";
+
+type MidiPanelProps = {
+  pads: PadId[];
+  onPad: (padId: PadId, velocity: number) => void;
+  onControl: (target: MidiControlTarget, value: number) => void;
+};
+
+const controlLabels: Record<MidiControlTarget, string> = {
+  bpm: "BPM",
+  filter: "Filter",
+  reverb: "Reverb"
+};
+
+const isLearning = (learning: MidiLearnTarget | null, target: MidiLearnTarget) =>
+  learning?.kind === target.kind &&
+  (target.kind === "pad"
+    ? learning.kind === "pad" && learning.padId === target.padId
+    : learning.kind === "control" && learning.target === target.target);
+
+export default function MidiPanel({ pads, onPad, onControl }: MidiPanelProps) {
+  const controllerRef = useRef<MidiInputController | null>(null);
+  const onPadRef = useRef(onPad);
+  const onControlRef = useRef(onControl);
+  onPadRef.current = onPad;
+  onControlRef.current = onControl;
+
+  const [status, setStatus] = useState<"idle" | "ready" | "unsupported">("idle");
+  const [devices, setDevices] = useState<MidiDevice[]>([]);
+  const [mapping, setMapping] = useState<MidiMapping | null>(null);
+  const [learning, setLearning] = useState<MidiLearnTarget | null>(null);
+
+  useEffect(() => {
+    return () => controllerRef.current?.dispose();
+  }, []);
+
+  const connect = async () => {
+    try {
+      const access = await requestMidiAccess();
+      if (!access) {
+        setStatus("unsupported");
+        return;
+      }
+      controllerRef.current?.dispose();
+      const controller = new MidiInputController(
+        access,
+        {
+          onPad: (padId, velocity) => onPadRef.current(padId, velocity),
+          onControl: (target, value) => onControlRef.current(target, value),
+          onMappingChange: (next) => {
+            saveMidiMapping(next);
+            setMapping(next);
+            setLearning(controllerRef.current?.getLearnTarget() ?? null);
+          },
+          onDevicesChange: setDevices
+        },
+        loadMidiMapping()
+      );
+      controllerRef.current = controller;
+      setDevices(controller.listInputs());
+      setMapping(controller.getMapping());
+      setStatus("ready");
+    } catch (err) {
+      console.error(err);
+      setStatus("unsupported");
+    }
+  };
+
+  const toggleLearn = (target: MidiLearnTarget) => {
+    const next = isLearning(learning, target) ? null : target;
+    controllerRef.current?.learn(next);
+    setLearning(next);
+  };
+
+  const noteFor = (padId: PadId) =>
+    Object.entries(mapping?.notes ?? {}).find(([, mapped]) => mapped === padId)?.[0];
+
+  const ccFor = (target: MidiControlTarget) =>
+    Object.entries(mapping?.controls ?? {}).find(([, mapped]) => mapped === target)?.[0];
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/10 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm uppercase tracking-[0.35em] text-white/60">MIDI Controller</h2>
+        {status !== "ready" && (
+          <button
+            onClick={connect}
+            className="rounded-lg border border-neo-cyan/40 bg-neo-cyan/10 px-3 py-1 text-[10px] uppercase tracking-[0.2em] text-white/70 transition hover:bg-neo-cyan/20"
+          >
+            Connect
+          </button>
+        )}
+      </div>
+      {status === "unsupported" && (
+        <p className="mt-3 text-xs text-white/50">Web MIDI is unavailable in this browser.</p>
+      )}
+      {status === "ready" && mapping && (
+        <>
+          <select
+            className="mt-4 w-full rounded-xl border border-white/20 bg-black/30 px-3 py-2 text-sm text-white focus:border-neo-cyan focus:outline-none"
+            value={mapping.inputId ?? ""}
+            onChange={(event) => controllerRef.current?.selectInput(event.target.value || null)}
+          >
+            <option value="">No input</option>
+            {devices.map((device) => (
+              <option key={device.id} value={device.id}>
+                {device.name}
+              </option>
+            ))}
+          </select>
+          <div className="mt-4 grid grid-cols-3 gap-2">
+            {pads.map((padId) => {
+              const target: MidiLearnTarget = { kind: "pad", padId };
+              const note = noteFor(padId);
+              return (
+                <button
+                  key={padId}
+                  onClick={() => toggleLearn(target)}
+                  className={clsx(
+                    "rounded-xl border px-2 py-2 text-[10px] uppercase tracking-[0.2em]",
+                    isLearning(learning, target)
+                      ? "animate-pulse border-neo-pink bg-neo-pink/20 text-white"
+                      : "border-white/10 bg-white/5 text-white/60"
+                  )}
+                >
+                  {PAD_META[padId].label}
+                  <span className="block text-white/40">{note ? `Note ${note}` : "Learn"}</span>
+                </button>
+              );
+            })}
+            {(Object.keys(controlLabels) as MidiControlTarget[]).map((control) => {
+              const target: MidiLearnTarget = { kind: "control", target: control };
+              const cc = ccFor(control);
+              return (
+                <button
+                  key={control}
+                  onClick={() => toggleLearn(target)}
+                  className={clsx(
+                    "rounded-xl border px-2 py-2 text-[10px] uppercase tracking-[0.2em]",
+                    isLearning(learning, target)
+                      ? "animate-pulse border-neo-yellow bg-neo-yellow/20 text-white"
+                      : "border-white/10 bg-white/5 text-white/60"
+                  )}
+                >
+                  {controlLabels[control]}
+                  <span className="block text-white/40">{cc ? `CC ${cc}` : "Learn"}</span>
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import clsx from "clsx";
+import {
+  PAD_META,
+  isChannelSilenced,
+  type ChannelSettings,
+  type MixerSettings,
+  type PadId
+} from "./AudioEngine";
+
+type MixerPanelProps = {
+  pads: PadId[];
+  mixer: MixerSettings;
+  onChange: (mixer: MixerSettings) => void;
+};
+
+const sliderClass = "h-1 w-full cursor-pointer appearance-none rounded-lg bg-white/20";
+
+export default function MixerPanel({ pads, mixer, onChange }: MixerPanelProps) {
+  const update = (padId: PadId, patch: Partial<ChannelSettings>) => {
+    onChange({ ...mixer, [padId]: { ...mixer[padId], ...patch } });
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/10 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm uppercase tracking-[0.35em] text-white/60">Mixer</h2>
+        <span className="text-[10px] uppercase tracking-[0.35em] text-white/40">Vol • Pan • Verb</span>
+      </div>
+      <div className="mt-4 flex flex-col gap-3">
+        {pads.map((padId) => {
+          const channel = mixer[padId];
+          return (
+            <div
+              key={padId}
+              className={clsx(
+                "grid grid-cols-[3rem_1fr_1fr_1fr_auto] items-center gap-2 transition-opacity",
+                isChannelSilenced(mixer, padId) && "opacity-40"
+              )}
+            >
+              <span className="text-[10px] uppercase tracking-widest text-white/70">
+                {PAD_META[padId].label}
+              </span>
+              <input
+                aria-label={`${PAD_META[padId].label} volume`}
+                className={clsx(sliderClass, "accent-neo-pink")}
+                type="range"
+                min={-40}
+                max={6}
+                step={1}
+                value={channel.volume}
+                onChange={(event) => update(padId, { volume: Number(event.target.value) })}
+              />
+              <input
+                aria-label={`${PAD_META[padId].label} pan`}
+                className={clsx(sliderClass, "accent-neo-cyan")}
+                type="range"
+                min={-1}
+                max={1}
+                step={0.05}
+                value={channel.pan}
+                onChange={(event) => update(padId, { pan: Number(event.target.value) })}
+              />
+              <input
+                aria-label={`${PAD_META[padId].label} reverb send`}
+                className={clsx(sliderClass, "accent-neo-yellow")}
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={channel.send}
+                onChange={(event) => update(padId, { send: Number(event.target.value) })}
+              />
+              <div className="flex gap-1">
+                <button
+                  onClick={() => update(padId, { mute: !channel.mute })}
+                  className={clsx(
+                    "h-6 w-6 rounded-md border text-[10px] font-semibold",
+                    channel.mute
+                      ? "border-neo-pink bg-neo-pink/30 text-white"
+                      : "border-white/10 bg-white/5 text-white/50"
+                  )}
+                >
+                  M
+                </button>
+                <button
+                  onClick={() => update(padId, { solo: !channel.solo })}
+                  className={clsx(
+                    "h-6 w-6 rounded-md border text-[10px] font-semibold",
+                    channel.solo
+                      ? "border-neo-yellow bg-neo-yellow/30 text-white"
+                      : "border-white/10 bg-white/5 text-white/50"
+                  )}
+                >
+                  S
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import clsx from "clsx";
+import type { AudioEngine } from "./AudioEngine";
+import { downloadBlob, fileSlug } from "@/lib/download";
+import {
+  COUNTDOWN_SECONDS,
+  MAX_RECORDING_WIDTH,
+  PerformanceRecorder,
+  RECORDING_FPS,
+  drawPerformanceFrame,
+  pickRecordingType,
+  recordingExtension,
+  type PerformanceScene,
+  type RecordingStatus
+} from "@/lib/recording";
+
+type RecordPanelProps = {
+  engine: AudioEngine;
+  title: string;
+  ensureAudio: () => Promise<void>;
+  captureScene: () => PerformanceScene | null;
+};
+
+type Session = {
+  recorder: PerformanceRecorder;
+  canvasStream: MediaStream;
+  frame: number;
+  timers: number[];
+};
+
+type Preview = {
+  url: string;
+  blob: Blob;
+  type: string;
+};
+
+const statusLabels: Record<RecordingStatus, string> = {
+  idle: "Ready",
+  countdown: "Get ready",
+  waiting: "Starting on the next bar",
+  recording: "Recording",
+  stopping: "Stopping on the next bar"
+};
+
+export default function RecordPanel({ engine, title, ensureAudio, captureScene }: RecordPanelProps) {
+  const [status, setStatus] = useState<RecordingStatus>("idle");
+  const [countdown, setCountdown] = useState(0);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef<Session | null>(null);
+  // the draw loop outlives renders, so it reads the latest scene through here
+  const captureRef = useRef(captureScene);
+  captureRef.current = captureScene;
+
+  const teardown = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    cancelAnimationFrame(session.frame);
+    session.timers.forEach((timer) => window.clearTimeout(timer));
+    session.canvasStream.getTracks().forEach((track) => track.stop());
+    sessionRef.current = null;
+  }, []);
+
+  useEffect(() => teardown, [teardown]);
+
+  useEffect(() => {
+    if (!preview) return;
+    return () => URL.revokeObjectURL(preview.url);
+  }, [preview]);
+
+  const handleStart = async () => {
+    const type = pickRecordingType();
+    if (!type) {
+      setError("This browser cannot record video");
+      return;
+    }
+    await ensureAudio();
+    const scene = captureRef.current();
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("2d");
+    if (!scene || !context) return;
+    const factor = Math.min(window.devicePixelRatio || 1, MAX_RECORDING_WIDTH / scene.width);
+    canvas.width = Math.round(scene.width * factor);
+    canvas.height = Math.round(scene.height * factor);
+
+    const canvasStream = canvas.captureStream(RECORDING_FPS);
+    const session: Session = {
+      recorder: new PerformanceRecorder(canvasStream, engine.captureOutput(), type),
+      canvasStream,
+      frame: 0,
+      timers: []
+    };
+    sessionRef.current = session;
+    const draw = () => {
+      session.frame = requestAnimationFrame(draw);
+      const next = captureRef.current();
+      if (next) drawPerformanceFrame(context, next);
+    };
+    draw();
+
+    setError(null);
+    setPreview(null);
+    setStatus("countdown");
+    setCountdown(COUNTDOWN_SECONDS);
+    for (let second = 1; second < COUNTDOWN_SECONDS; second++) {
+      session.timers.push(window.setTimeout(() => setCountdown(COUNTDOWN_SECONDS - second), second * 1000));
+    }
+    session.timers.push(
+      window.setTimeout(() => {
+        setStatus("waiting");
+        // start and stop on bar lines so the loops in the video come out whole
+        session.timers.push(
+          window.setTimeout(() => {
+            session.recorder.start();
+            setStatus("recording");
+          }, engine.secondsToNextBar() * 1000)
+        );
+      }, COUNTDOWN_SECONDS * 1000)
+    );
+  };
+
+  const handleStop = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    if (status !== "recording") {
+      teardown();
+      setStatus("idle");
+      return;
+    }
+    setStatus("stopping");
+    session.timers.push(
+      window.setTimeout(() => {
+        session.recorder
+          .stop()
+          .then((blob) => setPreview({ url: URL.createObjectURL(blob), blob, type: session.recorder.type }))
+          .catch((err) => {
+            console.error(err);
+            setError("Recording failed");
+          })
+          .finally(() => {
+            teardown();
+            setStatus("idle");
+          });
+      }, engine.secondsToNextBar() * 1000)
+    );
+  };
+
+  const busy = status !== "idle";
+
+  return (
+    <div className="mt-6 rounded-3xl border border-white/10 bg-black/30 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs uppercase tracking-[0.35em] text-white/60">Record Performance</h2>
+        <span
+          className={clsx(
+            "flex items-center gap-2 text-[10px] uppercase tracking-[0.35em]",
+            status === "recording" ? "text-red-300" : "text-white/40"
+          )}
+        >
+          {status === "recording" && <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" />}
+          {statusLabels[status]}
+        </span>
+      </div>
+      <button
+        onClick={busy ? handleStop : handleStart}
+        disabled={status === "stopping"}
+        className={clsx(
+          "mt-3 w-full rounded-2xl border px-4 py-3 text-xs uppercase tracking-[0.35em] text-white transition disabled:opacity-40",
+          busy
+            ? "border-red-400/80 bg-red-500/20 hover:bg-red-500/30"
+            : "border-neo-pink/80 bg-neo-pink/20 hover:bg-neo-pink/30"
+        )}
+      >
+        {status === "recording" || status === "stopping" ? "Stop" : busy ? "Cancel" : "Record"}
+      </button>
+      <p className="mt-2 text-[10px] text-white/40">
+        Captures the filtered camera, the pads and the master mix. Recording starts and stops on a bar line.
+      </p>
+      {error && <p className="mt-2 text-xs text-red-200">{error}</p>}
+
+      {status === "countdown" && (
+        <div className="pointer-events-none fixed inset-0 z-40 flex items-center justify-center">
+          <span key={countdown} className="animate-ping text-8xl font-semibold text-white/90">
+            {countdown}
+          </span>
+        </div>
+      )}
+
+      {preview && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6 backdrop-blur"
+          onClick={() => setPreview(null)}
+        >
+          <div
+            className="w-full max-w-lg rounded-3xl border border-white/10 bg-black/80 p-6 text-center"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <p className="text-xs uppercase tracking-[0.35em] text-white/60">Your Performance</p>
+            <video src={preview.url} controls autoPlay loop playsInline className="mt-4 w-full rounded-2xl" />
+            <div className="mt-4 grid grid-cols-2 gap-2">
+              <button
+                onClick={() =>
+                  downloadBlob(preview.blob, `${fileSlug(title)}.${recordingExtension(preview.type)}`)
+                }
+                className="rounded-xl border border-neo-cyan/80 bg-neo-cyan/20 py-2 text-[10px] uppercase tracking-[0.35em] text-white transition hover:bg-neo-cyan/30"
+              >
+                Download
+              </button>
+              <button
+                onClick={() => setPreview(null)}
+                className="rounded-xl border border-white/10 bg-white/5 py-2 text-[10px] uppercase tracking-[0.35em] text-white/70 transition hover:text-white"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
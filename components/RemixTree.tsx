@@ -0,0 +1,34 @@
+"use client";
+
+import type { LoopClip } from "./AudioEngine";
+import type { RemixNode } from "@/lib/lineage";
+
+type RemixTreeProps = {
+  nodes: RemixNode[];
+  onSelect: (clip: LoopClip) => void;
+};
+
+export default function RemixTree({ nodes, onSelect }: RemixTreeProps) {
+  return (
+    <ul className="space-y-1 border-l border-white/10 pl-3">
+      {nodes.map(({ clip, remixes }) => (
+        <li key={clip.id}>
+          <button
+            onClick={() => onSelect(clip)}
+            className="flex w-full items-center gap-2 text-left text-xs text-white/70 transition hover:text-white"
+          >
+            <span className="h-2 w-2 shrink-0 rounded-full" style={{ background: clip.color }} />
+            <span className="truncate">{clip.title}</span>
+            <span className="text-white/40">by {clip.author}</span>
+            <span className="ml-auto text-[10px] text-white/40">❤ {clip.likes}</span>
+          </button>
+          {remixes.length > 0 && (
+            <div className="mt-1">
+              <RemixTree nodes={remixes} onSelect={onSelect} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
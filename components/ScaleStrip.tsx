@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import { MELODIC_PADS, PAD_META, type MelodicPadId } from "./AudioEngine";
+import { NOTE_NAMES, SCALES, scalePitches, type NoteName, type ScaleId } from "@/lib/music";
+
+type ScaleStripProps = {
+  musicalKey: NoteName;
+  scale: ScaleId;
+  onKeyChange: (key: NoteName) => void;
+  onScaleChange: (scale: ScaleId) => void;
+  onPlay: (padId: MelodicPadId, pitch: string) => void;
+};
+
+const voiceOctave: Record<MelodicPadId, number> = {
+  bass: 2,
+  lead: 4,
+  fx: 4
+};
+
+export default function ScaleStrip({ musicalKey, scale, onKeyChange, onScaleChange, onPlay }: ScaleStripProps) {
+  const [voice, setVoice] = useState<MelodicPadId>("lead");
+  const pitches = scalePitches(musicalKey, scale, voiceOctave[voice], SCALES[scale].intervals.length + 1);
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/10 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm uppercase tracking-[0.35em] text-white/60">Scale Strip</h2>
+        <div className="flex gap-2">
+          <select
+            className="rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-xs text-white focus:border-neo-cyan focus:outline-none"
+            value={musicalKey}
+            onChange={(event) => onKeyChange(event.target.value as NoteName)}
+          >
+            {NOTE_NAMES.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <select
+            className="rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-xs text-white focus:border-neo-cyan focus:outline-none"
+            value={scale}
+            onChange={(event) => onScaleChange(event.target.value as ScaleId)}
+          >
+            {(Object.keys(SCALES) as ScaleId[]).map((id) => (
+              <option key={id} value={id}>
+                {SCALES[id].label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="mt-4 flex gap-2">
+        {MELODIC_PADS.map((padId) => (
+          <button
+            key={padId}
+            onClick={() => setVoice(padId)}
+            className={clsx(
+              "flex-1 rounded-xl border px-3 py-2 text-[10px] uppercase tracking-[0.35em]",
+              voice === padId
+                ? "border-neo-purple bg-neo-purple/30 text-white"
+                : "border-white/10 bg-white/5 text-white/60"
+            )}
+          >
+            {PAD_META[padId].label}
+          </button>
+        ))}
+      </div>
+      <div className="mt-3 flex gap-1">
+        {pitches.map((pitch, degree) => (
+          <button
+            key={pitch}
+            onPointerDown={() => onPlay(voice, pitch)}
+            className={clsx(
+              "flex h-14 flex-1 items-end justify-center rounded-xl border pb-2 text-[10px] uppercase text-white/70 transition active:scale-95",
+              degree % (pitches.length - 1) === 0
+                ? "border-neo-cyan/60 bg-neo-cyan/20"
+                : "border-white/10 bg-white/5 hover:border-white/30"
+            )}
+          >
+            {pitch}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
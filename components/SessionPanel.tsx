@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import type { ActiveClip } from "./AudioEngine";
+import type { Scene } from "@/lib/scenes";
+
+type SessionPanelProps = {
+  layers: ActiveClip[];
+  scenes: Scene[];
+  onToggleMute: (layer: ActiveClip) => void;
+  onVolume: (layer: ActiveClip, volume: number) => void;
+  onStop: (layer: ActiveClip) => void;
+  onSaveScene: (name: string) => void;
+  onRecallScene: (scene: Scene) => void;
+  onDeleteScene: (scene: Scene) => void;
+};
+
+export default function SessionPanel({
+  layers,
+  scenes,
+  onToggleMute,
+  onVolume,
+  onStop,
+  onSaveScene,
+  onRecallScene,
+  onDeleteScene
+}: SessionPanelProps) {
+  const [sceneName, setSceneName] = useState("");
+
+  return (
+    <div className="mt-6 rounded-3xl border border-white/10 bg-black/30 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs uppercase tracking-[0.35em] text-white/60">Session Layers</h2>
+        <span className="text-[10px] uppercase tracking-[0.35em] text-white/40">
+          {layers.length} running • launch on next bar
+        </span>
+      </div>
+      {layers.length === 0 ? (
+        <p className="mt-4 text-xs text-white/40">Play clips from the stream to stack them here.</p>
+      ) : (
+        <div className="mt-4 flex flex-col gap-2">
+          {layers.map((layer) => (
+            <div
+              key={layer.id}
+              className={clsx(
+                "grid grid-cols-[auto_1fr_6rem_auto_auto] items-center gap-3 rounded-2xl border border-white/10 bg-white/5 px-3 py-2",
+                layer.muted && "opacity-50"
+              )}
+            >
+              <span
+                className="h-3 w-3 rounded-full"
+                style={{ background: layer.color, boxShadow: `0 0 12px ${layer.color}` }}
+              />
+              <p className="truncate text-xs text-white/80">
+                {layer.title}
+                <span className="ml-2 text-white/40">
+                  {layer.bars}m • {layer.bpm} bpm
+                </span>
+              </p>
+              <input
+                aria-label={`${layer.title} volume`}
+                className="h-1 w-full cursor-pointer appearance-none rounded-lg bg-white/20 accent-neo-pink"
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={layer.volume}
+                onChange={(event) => onVolume(layer, Number(event.target.value))}
+              />
+              <button
+                onClick={() => onToggleMute(layer)}
+                className={clsx(
+                  "h-6 w-6 rounded-md border text-[10px] font-semibold",
+                  layer.muted
+                    ? "border-neo-pink bg-neo-pink/30 text-white"
+                    : "border-white/10 bg-white/5 text-white/50"
+                )}
+              >
+                M
+              </button>
+              <button
+                onClick={() => onStop(layer)}
+                className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-[10px] uppercase tracking-[0.2em] text-white/60 transition hover:border-white/30 hover:text-white"
+              >
+                Stop
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="mt-4 flex gap-2">
+        <input
+          className="flex-1 rounded-xl border border-white/20 bg-black/30 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:border-neo-cyan focus:outline-none"
+          placeholder="Scene name"
+          value={sceneName}
+          onChange={(event) => setSceneName(event.target.value)}
+        />
+        <button
+          onClick={() => {
+            onSaveScene(sceneName);
+            setSceneName("");
+          }}
+          disabled={layers.length === 0}
+          className="rounded-xl border border-neo-yellow/80 bg-neo-yellow/20 px-4 py-2 text-[10px] uppercase tracking-[0.35em] text-neo-yellow transition hover:bg-neo-yellow/30 disabled:opacity-40"
+        >
+          Save Scene
+        </button>
+      </div>
+      {scenes.length > 0 && (
+        <div className="mt-3 flex gap-2 overflow-x-auto pb-2">
+          {scenes.map((scene) => (
+            <div
+              key={scene.id}
+              className="flex flex-shrink-0 items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2"
+            >
+              <button
+                onClick={() => onRecallScene(scene)}
+                className="text-[10px] uppercase tracking-[0.35em] text-white/80 hover:text-white"
+              >
+                {scene.name}
+                <span className="ml-2 text-white/40">{scene.layers.length}</span>
+              </button>
+              <button
+                aria-label={`Delete ${scene.name}`}
+                onClick={() => onDeleteScene(scene)}
+                className="text-xs text-white/40 hover:text-white"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { LoopClip } from "./AudioEngine";
+import { encodeQr } from "@/lib/qr";
+
+type ShareDialogProps = {
+  clip: LoopClip;
+  url: string;
+  onClose: () => void;
+};
+
+const QUIET_ZONE = 4; // modules of light border scanners need around the code
+
+export default function ShareDialog({ clip, url, onClose }: ShareDialogProps) {
+  const [copied, setCopied] = useState(false);
+  const qr = useMemo(() => {
+    try {
+      return encodeQr(url);
+    } catch (err) {
+      console.error(err);
+      return null;
+    }
+  }, [url]);
+
+  const qrPath = useMemo(
+    () =>
+      qr
+        ?.flatMap((row, y) =>
+          row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : ""))
+        )
+        .join("") ?? "",
+    [qr]
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6 backdrop-blur"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-sm rounded-3xl border border-white/10 bg-black/80 p-6 text-center"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <p className="text-xs uppercase tracking-[0.35em] text-white/60">Share Clip</p>
+        <p className="mt-2 text-sm font-semibold text-white">
+          {clip.title}
+          <span className="ml-2 text-white/50">by {clip.author}</span>
+        </p>
+        {qr && (
+          <svg
+            className="mx-auto mt-4 w-56 rounded-xl bg-white"
+            viewBox={`0 0 ${qr.length + QUIET_ZONE * 2} ${qr.length + QUIET_ZONE * 2}`}
+            shapeRendering="crispEdges"
+            role="img"
+            aria-label={`QR code for ${clip.title}`}
+          >
+            <path d={qrPath} fill="#000" />
+          </svg>
+        )}
+        <input
+          readOnly
+          className="mt-4 w-full rounded-xl border border-white/20 bg-black/30 px-3 py-2 text-xs text-white/70 focus:border-neo-cyan focus:outline-none"
+          value={url}
+          onFocus={(event) => event.target.select()}
+        />
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          <button
+            onClick={handleCopy}
+            className="rounded-xl border border-neo-cyan/80 bg-neo-cyan/20 py-2 text-[10px] uppercase tracking-[0.35em] text-white transition hover:bg-neo-cyan/30"
+          >
+            {copied ? "Copied" : "Copy Link"}
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-white/10 bg-white/5 py-2 text-[10px] uppercase tracking-[0.35em] text-white/70 transition hover:text-white"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
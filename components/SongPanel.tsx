@@ -0,0 +1,176 @@
+"use client";
+
+import clsx from "clsx";
+import { PAD_META, type PadId } from "./AudioEngine";
+import { MAX_REPEATS, sectionBars, songBars, songSeconds, type Song, type SongSection } from "@/lib/song";
+
+type SongPanelProps = {
+  pads: PadId[];
+  song: Song;
+  playing: boolean;
+  rendering: boolean;
+  onChange: (song: Song) => void;
+  onPlay: () => void;
+  onStop: () => void;
+  onExport: () => void;
+};
+
+const formatDuration = (seconds: number) => {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+const numberClass =
+  "w-14 rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-xs text-white focus:border-neo-cyan focus:outline-none";
+
+export default function SongPanel({
+  pads,
+  song,
+  playing,
+  rendering,
+  onChange,
+  onPlay,
+  onStop,
+  onExport
+}: SongPanelProps) {
+  const updateSection = (id: string, patch: Partial<SongSection>) => {
+    onChange({
+      ...song,
+      sections: song.sections.map((section) => (section.id === id ? { ...section, ...patch } : section))
+    });
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= song.sections.length) return;
+    const sections = [...song.sections];
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    onChange({ ...song, sections });
+  };
+
+  const toggleMute = (section: SongSection, padId: PadId) => {
+    updateSection(section.id, {
+      mutes: section.mutes.includes(padId)
+        ? section.mutes.filter((id) => id !== padId)
+        : [...section.mutes, padId]
+    });
+  };
+
+  return (
+    <div className="mt-6 rounded-3xl border border-white/10 bg-black/30 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs uppercase tracking-[0.35em] text-white/60">Song Arrangement</h2>
+        <span className="text-[10px] uppercase tracking-[0.35em] text-white/40">
+          {songBars(song)} bars • {formatDuration(songSeconds(song))}
+        </span>
+      </div>
+      <input
+        className="mt-4 w-full rounded-xl border border-white/20 bg-black/30 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:border-neo-cyan focus:outline-none"
+        placeholder="Song title"
+        value={song.title}
+        onChange={(event) => onChange({ ...song, title: event.target.value })}
+      />
+      {song.sections.length === 0 ? (
+        <p className="mt-4 text-xs text-white/40">Add clips from the stream to build a song.</p>
+      ) : (
+        <ol className="mt-4 flex flex-col gap-2">
+          {song.sections.map((section, index) => (
+            <li
+              key={section.id}
+              className="flex flex-wrap items-center gap-3 rounded-2xl border border-white/10 bg-white/5 px-3 py-2"
+            >
+              <span
+                className="h-3 w-3 rounded-full"
+                style={{ background: section.clip.color, boxShadow: `0 0 12px ${section.clip.color}` }}
+              />
+              <p className="min-w-[6rem] flex-1 truncate text-xs text-white/80">
+                {index + 1}. {section.clip.title}
+                <span className="ml-2 text-white/40">{sectionBars(section)}m</span>
+              </p>
+              <label className="flex items-center gap-1 text-[10px] uppercase tracking-widest text-white/50">
+                ×
+                <input
+                  className={numberClass}
+                  type="number"
+                  min={1}
+                  max={MAX_REPEATS}
+                  value={section.repeats}
+                  onChange={(event) =>
+                    updateSection(section.id, {
+                      repeats: Math.min(MAX_REPEATS, Math.max(1, Math.round(Number(event.target.value) || 1)))
+                    })
+                  }
+                />
+              </label>
+              <label className="flex items-center gap-1 text-[10px] uppercase tracking-widest text-white/50">
+                bpm
+                <input
+                  className={numberClass}
+                  type="number"
+                  min={60}
+                  max={180}
+                  value={section.bpm}
+                  onChange={(event) =>
+                    updateSection(section.id, {
+                      bpm: Math.min(180, Math.max(60, Number(event.target.value) || section.clip.bpm))
+                    })
+                  }
+                />
+              </label>
+              <div className="flex gap-1">
+                {pads.map((padId) => (
+                  <button
+                    key={padId}
+                    title={`Mute ${PAD_META[padId].label} in this section`}
+                    onClick={() => toggleMute(section, padId)}
+                    className={clsx(
+                      "h-6 w-6 rounded-md border text-[10px] font-semibold",
+                      section.mutes.includes(padId)
+                        ? "border-neo-pink bg-neo-pink/30 text-white"
+                        : "border-white/10 bg-white/5 text-white/50"
+                    )}
+                  >
+                    {PAD_META[padId].label[0]}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-1 text-xs text-white/50">
+                <button onClick={() => moveSection(index, -1)} className="hover:text-white">
+                  ↑
+                </button>
+                <button onClick={() => moveSection(index, 1)} className="hover:text-white">
+                  ↓
+                </button>
+                <button
+                  aria-label={`Remove ${section.clip.title}`}
+                  onClick={() =>
+                    onChange({ ...song, sections: song.sections.filter((item) => item.id !== section.id) })
+                  }
+                  className="hover:text-white"
+                >
+                  ×
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="mt-4 grid grid-cols-2 gap-2">
+        <button
+          onClick={playing ? onStop : onPlay}
+          disabled={song.sections.length === 0}
+          className="rounded-xl border border-neo-cyan/80 bg-neo-cyan/20 py-2 text-[10px] uppercase tracking-[0.35em] text-white transition hover:bg-neo-cyan/30 disabled:opacity-40"
+        >
+          {playing ? "Stop Song" : "Play Song"}
+        </button>
+        <button
+          onClick={onExport}
+          disabled={song.sections.length === 0 || rendering}
+          className="rounded-xl border border-neo-yellow/80 bg-neo-yellow/20 py-2 text-[10px] uppercase tracking-[0.35em] text-neo-yellow transition hover:bg-neo-yellow/30 disabled:opacity-40"
+        >
+          {rendering ? "Rendering" : "⬇ Song WAV"}
+        </button>
+      </div>
+    </div>
+  );
+}
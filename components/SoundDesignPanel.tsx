@@ -0,0 +1,298 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import { PAD_META, type PadId } from "./AudioEngine";
+import {
+  NOISE_COLORS,
+  OSCILLATOR_SHAPES,
+  VOICE_TYPES,
+  changeVoiceType,
+  type EnvelopeSettings,
+  type NoiseColor,
+  type OscillatorShape,
+  type SynthKit,
+  type VoiceSettings,
+  type VoiceType
+} from "@/lib/synthKits";
+
+type SoundDesignPanelProps = {
+  pads: PadId[];
+  kits: SynthKit[];
+  kit: SynthKit;
+  dirty: boolean;
+  onSelect: (kitId: string) => void;
+  onChange: (kit: SynthKit) => void;
+  onSave: () => void;
+  onDelete: (kit: SynthKit) => void;
+};
+
+type ParamSliderProps = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+};
+
+const NOTE_LENGTHS = ["32n", "16n", "8n", "4n", "2n"];
+
+const selectClass =
+  "rounded-lg border border-white/20 bg-black/30 px-2 py-1 text-xs text-white focus:border-neo-cyan focus:outline-none";
+
+function ParamSlider({ label, value, min, max, step, onChange }: ParamSliderProps) {
+  return (
+    <label className="flex flex-col gap-1 text-[10px] uppercase tracking-widest text-white/50">
+      <span className="flex justify-between">
+        {label}
+        <span className="text-white/70">{value}</span>
+      </span>
+      <input
+        className="h-1 w-full cursor-pointer appearance-none rounded-lg bg-white/20 accent-neo-purple"
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+      />
+    </label>
+  );
+}
+
+export default function SoundDesignPanel({
+  pads,
+  kits,
+  kit,
+  dirty,
+  onSelect,
+  onChange,
+  onSave,
+  onDelete
+}: SoundDesignPanelProps) {
+  const [padId, setPadId] = useState<PadId>(pads[0]);
+  const voice = kit.voices[padId];
+
+  const setVoice = (next: VoiceSettings) => {
+    onChange({ ...kit, voices: { ...kit.voices, [padId]: next } });
+  };
+
+  // the spread keeps the voice's own type, so the cast only restores what the union lost
+  const update = (patch: Partial<VoiceSettings>) => setVoice({ ...voice, ...patch } as VoiceSettings);
+
+  const updateEnvelope = (patch: Partial<EnvelopeSettings>) =>
+    update({ envelope: { ...voice.envelope, ...patch } });
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/10 p-4 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm uppercase tracking-[0.35em] text-white/60">Sound Design</h2>
+        <div className="flex gap-2">
+          <select className={selectClass} value={kit.id} onChange={(event) => onSelect(event.target.value)}>
+            {kits.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onSave}
+            disabled={!dirty}
+            className="rounded-lg border border-neo-yellow/80 bg-neo-yellow/20 px-2 py-1 text-[10px] uppercase tracking-[0.2em] text-neo-yellow disabled:opacity-40"
+          >
+            Save
+          </button>
+          {!kit.builtIn && (
+            <button
+              onClick={() => onDelete(kit)}
+              className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-[10px] uppercase tracking-[0.2em] text-white/60 hover:text-white"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+      {!kit.builtIn && (
+        <input
+          className="mt-4 w-full rounded-xl border border-white/20 bg-black/30 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:border-neo-cyan focus:outline-none"
+          placeholder="Kit name"
+          value={kit.name}
+          onChange={(event) => onChange({ ...kit, name: event.target.value })}
+        />
+      )}
+      <div className="mt-4 flex gap-1">
+        {pads.map((id) => (
+          <button
+            key={id}
+            onClick={() => setPadId(id)}
+            className={clsx(
+              "flex-1 rounded-xl border py-2 text-[10px] uppercase tracking-widest",
+              padId === id
+                ? "border-neo-purple bg-neo-purple/30 text-white"
+                : "border-white/10 bg-white/5 text-white/60"
+            )}
+          >
+            {PAD_META[id].label}
+          </button>
+        ))}
+      </div>
+      <div className="mt-4 flex flex-wrap gap-2">
+        <select
+          aria-label="Voice type"
+          className={selectClass}
+          value={voice.type}
+          onChange={(event) => setVoice(changeVoiceType(voice, event.target.value as VoiceType))}
+        >
+          {(Object.keys(VOICE_TYPES) as VoiceType[]).map((type) => (
+            <option key={type} value={type}>
+              {VOICE_TYPES[type]}
+            </option>
+          ))}
+        </select>
+        {"oscillator" in voice && (
+          <select
+            aria-label="Oscillator"
+            className={selectClass}
+            value={voice.oscillator}
+            onChange={(event) => update({ oscillator: event.target.value as OscillatorShape })}
+          >
+            {OSCILLATOR_SHAPES.map((shape) => (
+              <option key={shape} value={shape}>
+                {shape}
+              </option>
+            ))}
+          </select>
+        )}
+        {voice.type === "noise" && (
+          <select
+            aria-label="Noise color"
+            className={selectClass}
+            value={voice.noise}
+            onChange={(event) => update({ noise: event.target.value as NoiseColor })}
+          >
+            {NOISE_COLORS.map((color) => (
+              <option key={color} value={color}>
+                {color} noise
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          aria-label="Note length"
+          className={selectClass}
+          value={voice.length}
+          onChange={(event) => update({ length: event.target.value })}
+        >
+          {NOTE_LENGTHS.map((length) => (
+            <option key={length} value={length}>
+              {length}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="mt-4 grid grid-cols-2 gap-3">
+        <ParamSlider
+          label="Attack"
+          value={voice.envelope.attack}
+          min={0.001}
+          max={1}
+          step={0.001}
+          onChange={(attack) => updateEnvelope({ attack })}
+        />
+        <ParamSlider
+          label="Decay"
+          value={voice.envelope.decay}
+          min={0.01}
+          max={2}
+          step={0.01}
+          onChange={(decay) => updateEnvelope({ decay })}
+        />
+        <ParamSlider
+          label="Sustain"
+          value={voice.envelope.sustain}
+          min={0}
+          max={1}
+          step={0.01}
+          onChange={(sustain) => updateEnvelope({ sustain })}
+        />
+        <ParamSlider
+          label="Release"
+          value={voice.envelope.release}
+          min={0.01}
+          max={3}
+          step={0.01}
+          onChange={(release) => updateEnvelope({ release })}
+        />
+        <ParamSlider
+          label="Level"
+          value={voice.level}
+          min={0}
+          max={1}
+          step={0.01}
+          onChange={(level) => update({ level })}
+        />
+        {voice.type === "membrane" && (
+          <>
+            <ParamSlider
+              label="Octaves"
+              value={voice.octaves}
+              min={0.5}
+              max={8}
+              step={0.5}
+              onChange={(octaves) => update({ octaves })}
+            />
+            <ParamSlider
+              label="Pitch decay"
+              value={voice.pitchDecay}
+              min={0.005}
+              max={0.3}
+              step={0.005}
+              onChange={(pitchDecay) => update({ pitchDecay })}
+            />
+          </>
+        )}
+        {(voice.type === "metal" || voice.type === "fm") && (
+          <>
+            <ParamSlider
+              label="Harmonicity"
+              value={voice.harmonicity}
+              min={0.1}
+              max={10}
+              step={0.1}
+              onChange={(harmonicity) => update({ harmonicity })}
+            />
+            <ParamSlider
+              label="Mod index"
+              value={voice.modulationIndex}
+              min={0}
+              max={60}
+              step={1}
+              onChange={(modulationIndex) => update({ modulationIndex })}
+            />
+          </>
+        )}
+        {voice.type === "metal" && (
+          <ParamSlider
+            label="Resonance"
+            value={voice.resonance}
+            min={500}
+            max={8000}
+            step={50}
+            onChange={(resonance) => update({ resonance })}
+          />
+        )}
+        {voice.type === "mono" && (
+          <ParamSlider
+            label="Filter Q"
+            value={voice.filterQ}
+            min={0.1}
+            max={12}
+            step={0.1}
+            onChange={(filterQ) => update({ filterQ })}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
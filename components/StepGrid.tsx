@@ -0,0 +1,123 @@
+"use client";
+
+import { useRef } from "react";
+import clsx from "clsx";
+import { PAD_META, type LoopEvent, type PadId } from "./AudioEngine";
+
+type StepGridProps = {
+  pads: PadId[];
+  events: LoopEvent[];
+  totalSteps: number;
+  stepsPerBar: number;
+  onChange: (events: LoopEvent[]) => void;
+};
+
+type DragState = {
+  padId: PadId;
+  tick: number;
+  startY: number;
+  startVelocity: number;
+  existed: boolean;
+  moved: boolean;
+};
+
+const DRAG_THRESHOLD = 4; // px before a tap turns into a velocity drag
+const DRAG_RANGE = 80; // px of vertical travel for the full velocity range
+const MIN_VELOCITY = 0.05;
+
+const clampVelocity = (value: number) => Math.min(1, Math.max(MIN_VELOCITY, value));
+
+export default function StepGrid({ pads, events, totalSteps, stepsPerBar, onChange }: StepGridProps) {
+  const dragRef = useRef<DragState | null>(null);
+  const beatSize = Math.max(1, Math.round(stepsPerBar / 4));
+
+  const findEvent = (padId: PadId, tick: number) =>
+    events.find((evt) => evt.padId === padId && evt.tick === tick);
+
+  const withoutCell = (padId: PadId, tick: number) =>
+    events.filter((evt) => !(evt.padId === padId && evt.tick === tick));
+
+  const setVelocity = (padId: PadId, tick: number, velocity: number) => {
+    const existing = findEvent(padId, tick);
+    const next = [...withoutCell(padId, tick), { ...existing, tick, padId, velocity }];
+    onChange(next.sort((a, b) => a.tick - b.tick));
+  };
+
+  const handlePointerDown = (padId: PadId, tick: number, event: React.PointerEvent<HTMLButtonElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const existing = findEvent(padId, tick);
+    dragRef.current = {
+      padId,
+      tick,
+      startY: event.clientY,
+      startVelocity: existing?.velocity ?? 0.8,
+      existed: Boolean(existing),
+      moved: false
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const delta = drag.startY - event.clientY;
+    if (!drag.moved && Math.abs(delta) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    setVelocity(drag.padId, drag.tick, clampVelocity(drag.startVelocity + delta / DRAG_RANGE));
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+    if (drag.existed) {
+      onChange(withoutCell(drag.padId, drag.tick));
+    } else {
+      setVelocity(drag.padId, drag.tick, drag.startVelocity);
+    }
+  };
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="inline-flex min-w-full flex-col gap-1">
+        {pads.map((padId) => (
+          <div key={padId} className="flex items-center gap-1">
+            <span className="w-12 flex-shrink-0 text-[10px] uppercase tracking-widest text-white/60">
+              {PAD_META[padId].label}
+            </span>
+            {Array.from({ length: totalSteps }, (_, tick) => {
+              const event = findEvent(padId, tick);
+              return (
+                <button
+                  key={tick}
+                  aria-label={`${PAD_META[padId].label} step ${tick + 1}`}
+                  aria-pressed={Boolean(event)}
+                  title={event?.pitch}
+                  onPointerDown={(pointer) => handlePointerDown(padId, tick, pointer)}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={() => {
+                    dragRef.current = null;
+                  }}
+                  className={clsx(
+                    "relative h-7 w-6 flex-shrink-0 touch-none overflow-hidden rounded-md border",
+                    tick % stepsPerBar === 0 && tick > 0 && "ml-2",
+                    Math.floor(tick / beatSize) % 2 === 0
+                      ? "border-white/15 bg-white/10"
+                      : "border-white/10 bg-white/5"
+                  )}
+                >
+                  {event && (
+                    <span
+                      className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-neo-pink to-neo-cyan"
+                      style={{ height: `${Math.round(event.velocity * 100)}%` }}
+                    />
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { clipSteps, type ActiveClip, type AudioEngine } from "./AudioEngine";
+
+type StepRingProps = {
+  engine: AudioEngine;
+  clip: ActiveClip | null; // the layer the ring follows
+};
+
+type Playhead = {
+  position: number; // steps since the clip's first pass began, so the turn never runs backwards
+  seconds: number; // length of one step, for the sweep between steps
+};
+
+const LIT_MS = 160;
+const STEP_RADIUS = 47; // in the 100 by 100 viewBox
+const SPECTRUM_DEPTH = 0.14; // share of the radius a full band reaches in from the rim
+
+/**
+ * The playing clip's steps around the pad ring with a playhead sweeping over them,
+ * lighting each step as it sounds, and the master mix's spectrum along the rim.
+ */
+export default function StepRing({ engine, clip }: StepRingProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [playhead, setPlayhead] = useState<Playhead | null>(null);
+  const [lit, setLit] = useState<number[]>([]);
+
+  // level and edit changes hand over a new clip object; only a new layer restarts the ring
+  const clipId = clip?.id;
+  const startTicks = clip?.startTicks ?? 0;
+  const stepsPerBar = clip?.stepsPerBar ?? 0;
+
+  useEffect(() => {
+    setPlayhead(null);
+    setLit([]);
+    if (!clipId) return;
+    const timers: number[] = [];
+    const stopSteps = engine.onStep((ticks) => {
+      const { ppq, bpm } = engine.getTransport();
+      const position = (ticks - startTicks) / ((ppq * 4) / stepsPerBar);
+      setPlayhead(position < 0 ? null : { position, seconds: 60 / bpm / 4 });
+    });
+    const stopTriggers = engine.onTrigger((_padId, _velocity, source) => {
+      if (source?.clipId !== clipId) return;
+      const { tick } = source.event;
+      setLit((prev) => (prev.includes(tick) ? prev : [...prev, tick]));
+      timers.push(window.setTimeout(() => setLit((prev) => prev.filter((step) => step !== tick)), LIT_MS));
+    });
+    return () => {
+      stopSteps();
+      stopTriggers();
+      timers.forEach((timer) => window.clearTimeout(timer));
+    };
+  }, [clipId, engine, startTicks, stepsPerBar]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    let frame = 0;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const size = canvas.clientWidth * (window.devicePixelRatio || 1);
+      if (canvas.width !== size) {
+        canvas.width = size;
+        canvas.height = size;
+      }
+      const bands = engine.getSpectrum();
+      const center = size / 2;
+      context.clearRect(0, 0, size, size);
+      context.lineCap = "round";
+      context.lineWidth = Math.max(1, (Math.PI * size) / Math.max(1, bands.length) / 2);
+      bands.forEach((value, index) => {
+        if (value <= 0) return;
+        const angle = (index / bands.length) * Math.PI * 2 - Math.PI / 2;
+        const outer = center - context.lineWidth;
+        const inner = outer - value * SPECTRUM_DEPTH * center;
+        const hue = 190 + 130 * (index / bands.length);
+        context.strokeStyle = `hsla(${hue}, 100%, 70%, ${0.25 + 0.6 * value})`;
+        context.beginPath();
+        context.moveTo(center + Math.cos(angle) * inner, center + Math.sin(angle) * inner);
+        context.lineTo(center + Math.cos(angle) * outer, center + Math.sin(angle) * outer);
+        context.stroke();
+      });
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [engine]);
+
+  const totalSteps = clip ? clipSteps(clip) : 0;
+  const current = playhead ? Math.floor(playhead.position) % totalSteps : null;
+  const filled = new Set(clip?.events.map((evt) => evt.tick));
+
+  return (
+    <div className="pointer-events-none absolute inset-0">
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full rounded-full" />
+      {clip && (
+        <svg viewBox="0 0 100 100" className="absolute inset-0 h-full w-full">
+          {Array.from({ length: totalSteps }, (_, step) => {
+            const angle = (step / totalSteps) * Math.PI * 2 - Math.PI / 2;
+            const on = lit.includes(step);
+            return (
+              <circle
+                key={step}
+                cx={50 + Math.cos(angle) * STEP_RADIUS}
+                cy={50 + Math.sin(angle) * STEP_RADIUS}
+                r={on ? 1.6 : filled.has(step) ? 1.1 : 0.5}
+                fill={on ? "#fff" : filled.has(step) ? clip.color : "rgba(255,255,255,0.3)"}
+                opacity={step === current || on ? 1 : 0.7}
+              />
+            );
+          })}
+          {playhead && (
+            <g
+              key={clip.id}
+              style={{
+                // each step aims at the next one, so the sweep lands there as it sounds
+                transform: `rotate(${((playhead.position + 1) / totalSteps) * 360}deg)`,
+                transformOrigin: "50px 50px",
+                transition: `transform ${playhead.seconds}s linear`
+              }}
+            >
+              <line
+                x1={50}
+                y1={50 - STEP_RADIUS + 3}
+                x2={50}
+                y2={50 - STEP_RADIUS - 2}
+                stroke="#fff"
+                strokeWidth={0.6}
+              />
+            </g>
+          )}
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+/** Fetches JSON from the local backend, turning error responses into thrown errors. */
+export async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers }
+  });
+  if (!response.ok) {
+    const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+    const detail = error ? `: ${error}` : "";
+    throw new Error(`${init?.method ?? "GET"} ${url} failed (${response.status})${detail}`);
+  }
+  return (await response.json()) as T;
+}
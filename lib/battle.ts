@@ -0,0 +1,110 @@
+import type { LoopClip } from "@/components/AudioEngine";
+import { formatClipIssue, validateClip } from "@/lib/clipSchema";
+import type { Song } from "@/lib/song";
+
+export type BattleSide = 0 | 1;
+
+export type Battle = {
+  id: string;
+  createdAt: number;
+  bpm: number;
+  barsPerTurn: number;
+  rounds: number;
+  contenders: [LoopClip, LoopClip];
+  votes: [number, number];
+  status: "open" | "closed";
+  winner: BattleSide | null; // null while voting is open, and after a tie
+  closedAt: number | null;
+};
+
+export type BattleDraft = Pick<Battle, "bpm" | "barsPerTurn" | "rounds" | "contenders">;
+
+export type BattleTurn = {
+  id: string;
+  side: BattleSide;
+  round: number;
+};
+
+export const BATTLES_KEY = "pulsecanvas-battles";
+export const BATTLE_VOTES_KEY = "pulsecanvas-battle-votes";
+export const BATTLE_BARS = [1, 2, 4, 8];
+export const BATTLE_ROUNDS = [1, 2, 3, 4];
+export const BATTLE_WIN_POINTS = 300;
+
+/** Side A opens every round, then side B answers. */
+export const battleTurns = ({ id, rounds }: Pick<Battle, "id" | "rounds">): BattleTurn[] =>
+  Array.from({ length: rounds * 2 }, (_, index) => ({
+    id: `${id}-turn-${index}`,
+    side: (index % 2) as BattleSide,
+    round: Math.floor(index / 2) + 1
+  }));
+
+/**
+ * The battle as a song of alternating sections at one tempo. A clip longer than a
+ * turn plays through once rather than being cut off.
+ */
+export function battleSong(battle: Battle): Song {
+  return {
+    title: battle.contenders.map((clip) => clip.title).join(" vs "),
+    sections: battleTurns(battle).map(({ id, side }) => {
+      const clip = battle.contenders[side];
+      return {
+        id,
+        clip,
+        repeats: Math.max(1, Math.round(battle.barsPerTurn / clip.bars)),
+        bpm: battle.bpm,
+        mutes: []
+      };
+    })
+  };
+}
+
+export function decideWinner(votes: [number, number]): BattleSide | null {
+  if (votes[0] === votes[1]) return null;
+  return votes[0] > votes[1] ? 0 : 1;
+}
+
+/** Checks a posted battle before the backend stores it, throwing on the first problem. */
+export function validateBattleDraft(value: unknown): BattleDraft {
+  const draft = (typeof value === "object" && value !== null ? value : {}) as Partial<BattleDraft>;
+  if (typeof draft.bpm !== "number" || !(draft.bpm > 0)) {
+    throw new Error("Battle bpm must be a positive number");
+  }
+  if (!BATTLE_BARS.includes(draft.barsPerTurn as number)) {
+    throw new Error(`Battle turns must be one of ${BATTLE_BARS.join(", ")} bars`);
+  }
+  if (!BATTLE_ROUNDS.includes(draft.rounds as number)) {
+    throw new Error(`Battle rounds must be one of ${BATTLE_ROUNDS.join(", ")}`);
+  }
+  if (!Array.isArray(draft.contenders) || draft.contenders.length !== 2) {
+    throw new Error("A battle needs exactly two contenders");
+  }
+  const contenders = draft.contenders.map((raw) => {
+    const { clip, issues } = validateClip(raw);
+    if (!clip) throw new Error(formatClipIssue(issues[0]));
+    return clip;
+  }) as [LoopClip, LoopClip];
+  return {
+    bpm: draft.bpm,
+    barsPerTurn: draft.barsPerTurn as number,
+    rounds: draft.rounds as number,
+    contenders
+  };
+}
+
+export function loadBattleVotes(storage: Pick<Storage, "getItem"> = localStorage): Record<string, BattleSide> {
+  const stored = storage.getItem(BATTLE_VOTES_KEY);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored) as Record<string, BattleSide>;
+  } catch {
+    return {};
+  }
+}
+
+export function saveBattleVotes(
+  votes: Record<string, BattleSide>,
+  storage: Pick<Storage, "setItem"> = localStorage
+) {
+  storage.setItem(BATTLE_VOTES_KEY, JSON.stringify(votes));
+}
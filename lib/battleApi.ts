@@ -0,0 +1,32 @@
+import { requestJson } from "@/lib/api";
+import type { Battle, BattleDraft, BattleSide } from "@/lib/battle";
+
+const BATTLES_URL = "/api/battles";
+
+const battleUrl = (id: string, action: string) => `${BATTLES_URL}/${encodeURIComponent(id)}/${action}`;
+
+export async function fetchBattles(): Promise<Battle[]> {
+  const { battles } = await requestJson<{ battles: Battle[] }>(BATTLES_URL);
+  return battles;
+}
+
+export async function createBattle(draft: BattleDraft): Promise<Battle> {
+  const { battle } = await requestJson<{ battle: Battle }>(BATTLES_URL, {
+    method: "POST",
+    body: JSON.stringify(draft)
+  });
+  return battle;
+}
+
+export async function voteBattle(id: string, side: BattleSide): Promise<Battle> {
+  const { battle } = await requestJson<{ battle: Battle }>(battleUrl(id, "vote"), {
+    method: "POST",
+    body: JSON.stringify({ side })
+  });
+  return battle;
+}
+
+export async function closeBattle(id: string): Promise<Battle> {
+  const { battle } = await requestJson<{ battle: Battle }>(battleUrl(id, "close"), { method: "POST" });
+  return battle;
+}
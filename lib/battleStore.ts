@@ -0,0 +1,71 @@
+import { randomUUID } from "crypto";
+import type { LoopClip } from "@/components/AudioEngine";
+import { BATTLES_KEY, decideWinner, validateBattleDraft, type Battle, type BattleSide } from "@/lib/battle";
+import { readEmbeddedClip } from "@/lib/clipSchema";
+import { fileStorage } from "@/lib/fileStorage";
+
+function readBattles(): Battle[] {
+  const stored = fileStorage.getItem(BATTLES_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored) as Battle[];
+    // a battle is only playable with both contenders, so one bad clip drops the battle
+    return (Array.isArray(parsed) ? parsed : []).flatMap((battle) => {
+      const contenders = (Array.isArray(battle.contenders) ? battle.contenders : []).map(readEmbeddedClip);
+      if (contenders.length !== 2 || contenders.includes(null)) return [];
+      return [{ ...battle, contenders: contenders as [LoopClip, LoopClip] }];
+    });
+  } catch (err) {
+    console.error(err);
+    return [];
+  }
+}
+
+const writeBattles = (battles: Battle[]) => fileStorage.setItem(BATTLES_KEY, JSON.stringify(battles));
+
+/** Newest first. */
+export function listBattles(): Battle[] {
+  return readBattles().sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Opens a battle for voting, throwing if the draft does not validate. */
+export function createBattle(value: unknown): Battle {
+  const battle: Battle = {
+    ...validateBattleDraft(value),
+    id: randomUUID(),
+    createdAt: Date.now(),
+    votes: [0, 0],
+    status: "open",
+    winner: null,
+    closedAt: null
+  };
+  writeBattles([battle, ...readBattles()]);
+  return battle;
+}
+
+// null when there is no such battle; a closed battle comes back unchanged
+function updateBattle(id: string, update: (battle: Battle) => Battle): Battle | null {
+  const battles = readBattles();
+  const battle = battles.find((item) => item.id === id);
+  if (!battle) return null;
+  if (battle.status === "closed") return battle;
+  const updated = update(battle);
+  writeBattles(battles.map((item) => (item === battle ? updated : item)));
+  return updated;
+}
+
+export function voteBattle(id: string, side: BattleSide): Battle | null {
+  return updateBattle(id, (battle) => ({
+    ...battle,
+    votes: side === 0 ? [battle.votes[0] + 1, battle.votes[1]] : [battle.votes[0], battle.votes[1] + 1]
+  }));
+}
+
+export function closeBattle(id: string): Battle | null {
+  return updateBattle(id, (battle) => ({
+    ...battle,
+    status: "closed",
+    winner: decideWinner(battle.votes),
+    closedAt: Date.now()
+  }));
+}
@@ -0,0 +1,91 @@
+import type { PadId } from "@/components/AudioEngine";
+
+export type CameraEffect = "none" | "rgbSplit" | "kaleidoscope" | "pixelSort" | "feedback";
+
+/** Colour grading applied after the effect, the shader version of the old CSS filters. */
+export type ColorGrade = {
+  contrast: number;
+  saturation: number;
+  hue: number; // degrees
+  brightness: number;
+};
+
+export type CameraPreset = {
+  id: string;
+  name: string;
+  description: string;
+  effect: CameraEffect;
+  grade: ColorGrade;
+  css: string; // the same look as a CSS filter, for browsers without WebGL
+};
+
+/** How hard the music is hitting the picture right now, each 0 to 1. */
+export type Reactivity = {
+  kick: number; // pulses on kick hits, then falls away
+  hat: number; // shimmers on hat hits
+  level: number; // master output level
+  sweep: number; // where the filter sweep sits, shifting hue as it moves
+};
+
+export const CAMERA_PRESETS: CameraPreset[] = [
+  {
+    id: "aurora",
+    name: "Aurora Bloom",
+    description: "Glowing magenta waves",
+    effect: "feedback",
+    grade: { contrast: 1.15, saturation: 1.2, hue: 22, brightness: 1 },
+    css: "contrast(1.15) saturate(1.2) hue-rotate(22deg)"
+  },
+  {
+    id: "neon",
+    name: "Neon Vapor",
+    description: "Electric cyan haze",
+    effect: "rgbSplit",
+    grade: { contrast: 1.25, saturation: 1.35, hue: 110, brightness: 1 },
+    css: "contrast(1.25) saturate(1.35) hue-rotate(110deg)"
+  },
+  {
+    id: "void",
+    name: "Void Night",
+    description: "Deep noir pulses",
+    effect: "pixelSort",
+    grade: { contrast: 1.4, saturation: 1.4, hue: 0, brightness: 0.82 },
+    css: "contrast(1.4) saturate(1.4) brightness(0.82)"
+  },
+  {
+    id: "solar",
+    name: "Solar Flare",
+    description: "Golden energy trails",
+    effect: "kaleidoscope",
+    grade: { contrast: 1.1, saturation: 1.8, hue: -35, brightness: 1 },
+    css: "contrast(1.1) saturate(1.8) hue-rotate(-35deg)"
+  }
+];
+
+export const EFFECT_IDS: Record<CameraEffect, number> = {
+  none: 0,
+  rgbSplit: 1,
+  kaleidoscope: 2,
+  pixelSort: 3,
+  feedback: 4
+};
+
+// seconds for a hit's reaction to fall to about a third
+const KICK_DECAY = 0.14;
+const HAT_DECAY = 0.08;
+
+export const createReactivity = (): Reactivity => ({ kick: 0, hat: 0, level: 0, sweep: 0 });
+
+/** A hit bumps its reaction up to the hit's velocity; other pads leave the picture alone. */
+export function reactToHit(reactivity: Reactivity, padId: PadId, velocity: number): Reactivity {
+  if (padId === "kick") return { ...reactivity, kick: Math.max(reactivity.kick, velocity) };
+  if (padId === "hat") return { ...reactivity, hat: Math.max(reactivity.hat, velocity) };
+  return reactivity;
+}
+
+/** Lets hit reactions fade over `elapsed` seconds. */
+export const decayReactivity = (reactivity: Reactivity, elapsed: number): Reactivity => ({
+  ...reactivity,
+  kick: reactivity.kick * Math.exp(-elapsed / KICK_DECAY),
+  hat: reactivity.hat * Math.exp(-elapsed / HAT_DECAY)
+});
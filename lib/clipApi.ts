@@ -0,0 +1,26 @@
+import type { LoopClip } from "@/components/AudioEngine";
+import { requestJson } from "@/lib/api";
+
+const CLIPS_URL = "/api/clips";
+
+export async function fetchClips(): Promise<LoopClip[]> {
+  const { clips } = await requestJson<{ clips: LoopClip[] }>(CLIPS_URL);
+  return clips;
+}
+
+/** Posts a clip to the feed; the server hands back its own id, timestamp and counters. */
+export async function publishClip(clip: LoopClip, parentId: string | null = null): Promise<LoopClip> {
+  const url = parentId ? `${CLIPS_URL}/${encodeURIComponent(parentId)}/remix` : CLIPS_URL;
+  const { clip: published } = await requestJson<{ clip: LoopClip }>(url, {
+    method: "POST",
+    body: JSON.stringify(clip)
+  });
+  return published;
+}
+
+export async function likeClip(id: string): Promise<LoopClip> {
+  const { clip } = await requestJson<{ clip: LoopClip }>(`${CLIPS_URL}/${encodeURIComponent(id)}/like`, {
+    method: "POST"
+  });
+  return clip;
+}
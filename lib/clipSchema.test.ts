@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_CLIPS, type LoopClip } from "@/components/AudioEngine";
+import {
+  CLIPS_KEY,
+  CLIP_SCHEMA_VERSION,
+  QUARANTINE_KEY,
+  addOwnClipId,
+  loadClips,
+  loadOwnClipIds,
+  loadQuarantine,
+  migrateClip,
+  parseStoredClips,
+  readEmbeddedClip,
+  saveClips,
+  validateClip
+} from "@/lib/clipSchema";
+
+const memoryStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    }
+  };
+};
+
+const clip: LoopClip = { ...DEFAULT_CLIPS[0], createdAt: 1_700_000_000_000 };
+
+// a clip as the very first release stored it, before lengths, keys, mixers or feel
+const v1Clip = {
+  id: "old-one",
+  title: "Old One",
+  author: "You",
+  bpm: 98,
+  color: "#5ee7ff",
+  createdAt: 1_600_000_000_000,
+  events: [{ tick: 3, padId: "kick", velocity: 1 }]
+};
+
+describe("migrateClip", () => {
+  it("fills in every field added since version 1", () => {
+    const migrated = migrateClip(v1Clip, 1);
+    assert.equal(migrated.bars, 1);
+    assert.equal(migrated.stepsPerBar, 16);
+    assert.equal(migrated.kitId, null);
+    assert.equal(migrated.parentId, null);
+    assert.deepEqual(validateClip(migrated).issues, []);
+  });
+
+  it("keeps fields a clip already carries", () => {
+    const migrated = migrateClip({ ...v1Clip, bars: 2, swing: 0.2, parentId: "nova-drift" }, 1);
+    assert.equal(migrated.bars, 2);
+    assert.equal(migrated.swing, 0.2);
+    assert.equal(migrated.parentId, "nova-drift");
+  });
+
+  it("refuses clips from a newer schema", () => {
+    assert.throws(() => migrateClip(v1Clip, CLIP_SCHEMA_VERSION + 1), /saved by a newer version/);
+  });
+});
+
+describe("validateClip", () => {
+  const fieldsOf = (value: unknown) => validateClip(value).issues.map(({ clipId, field }) => ({ clipId, field }));
+
+  it("accepts a current clip", () => {
+    assert.deepEqual(validateClip(clip), { clip, issues: [] });
+  });
+
+  it("names the clip and event behind an unknown pad", () => {
+    const events = [...clip.events.slice(0, 2), { tick: 1, padId: "cowbell", velocity: 1 }];
+    assert.deepEqual(fieldsOf({ ...clip, events }), [{ clipId: clip.id, field: "events[2].padId" }]);
+  });
+
+  it("rejects a tick that is not a number", () => {
+    const events = [{ tick: NaN, padId: "kick", velocity: 1 }];
+    assert.deepEqual(fieldsOf({ ...clip, events }), [{ clipId: clip.id, field: "events[0].tick" }]);
+  });
+
+  it("rejects a tick past the end of the clip", () => {
+    const events = [{ tick: 0, padId: "kick", velocity: 1 }, { tick: 16, padId: "hat", velocity: 1 }];
+    assert.deepEqual(fieldsOf({ ...clip, bars: 1, events }), [{ clipId: clip.id, field: "events[1].tick" }]);
+  });
+});
+
+describe("parseStoredClips", () => {
+  it("quarantines corrupt JSON", () => {
+    const { clips, quarantined } = parseStoredClips("[{not json", 5);
+    assert.deepEqual(clips, []);
+    assert.equal(quarantined.length, 1);
+    assert.equal(quarantined[0].raw, "[{not json");
+    assert.equal(quarantined[0].quarantinedAt, 5);
+    assert.match(quarantined[0].issues[0].message, /not valid JSON/);
+  });
+
+  it("migrates a version 1 bare array to the current schema", () => {
+    const { clips, quarantined } = parseStoredClips(JSON.stringify([v1Clip]));
+    assert.deepEqual(quarantined, []);
+    assert.equal(clips.length, 1);
+    assert.equal(clips[0].id, "old-one");
+    assert.equal(clips[0].bpm, 98);
+    assert.equal(clips[0].synthKitId, clip.synthKitId);
+    assert.deepEqual(clips[0].mixer, clip.mixer);
+  });
+
+  it("quarantines clips saved by a newer version", () => {
+    const stored = JSON.stringify({ version: CLIP_SCHEMA_VERSION + 1, clips: [clip] });
+    const { clips, quarantined } = parseStoredClips(stored);
+    assert.deepEqual(clips, []);
+    assert.equal(quarantined[0].issues[0].clipId, clip.id);
+    assert.match(quarantined[0].issues[0].message, /saved by a newer version/);
+  });
+
+  it("keeps the valid clips when one of them is broken", () => {
+    const broken = { ...clip, id: "broken", events: [{ tick: -1, padId: "kick", velocity: 1 }] };
+    const { clips, quarantined } = parseStoredClips(
+      JSON.stringify({ version: CLIP_SCHEMA_VERSION, clips: [clip, broken] })
+    );
+    assert.deepEqual(
+      clips.map(({ id }) => id),
+      [clip.id]
+    );
+    assert.deepEqual(quarantined[0].issues, [
+      { clipId: "broken", field: "events[0].tick", message: "must be a step inside the clip" }
+    ]);
+  });
+});
+
+describe("loadClips", () => {
+  it("reads back what saveClips wrote", () => {
+    const storage = memoryStorage();
+    saveClips([clip], storage);
+    assert.deepEqual(loadClips(storage), { clips: [clip], quarantined: [] });
+    assert.equal(storage.getItem(QUARANTINE_KEY), null);
+  });
+
+  it("adds to the quarantine list rather than replacing it", () => {
+    const earlier = { raw: "old", version: 0, issues: [], quarantinedAt: 1 };
+    const storage = memoryStorage({
+      [CLIPS_KEY]: "not json",
+      [QUARANTINE_KEY]: JSON.stringify([earlier])
+    });
+    loadClips(storage);
+    const quarantine = loadQuarantine(storage);
+    assert.equal(quarantine.length, 2);
+    assert.deepEqual(quarantine[0], earlier);
+    assert.equal(quarantine[1].raw, "not json");
+  });
+});
+
+describe("readEmbeddedClip", () => {
+  it("migrates an unversioned copy from an older release", () => {
+    const embedded = readEmbeddedClip(v1Clip);
+    assert.equal(embedded?.id, "old-one");
+    assert.equal(embedded?.parentId, null);
+  });
+
+  it("rejects a copy that does not validate", () => {
+    assert.equal(readEmbeddedClip({ ...clip, events: [{ tick: 0, padId: "cowbell", velocity: 1 }] }), null);
+    assert.equal(readEmbeddedClip("kick"), null);
+  });
+});
+
+describe("own clip ids", () => {
+  it("remembers each id once", () => {
+    const storage = memoryStorage();
+    addOwnClipId("a", storage);
+    addOwnClipId("b", storage);
+    addOwnClipId("a", storage);
+    assert.deepEqual(loadOwnClipIds(storage), ["a", "b"]);
+  });
+});
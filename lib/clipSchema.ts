@@ -0,0 +1,295 @@
+import {
+  BAR_OPTIONS,
+  GRID_STEPS,
+  createDefaultMixer,
+  type LoopClip,
+  type PadId
+} from "@/components/AudioEngine";
+import {
+  DEFAULT_GROOVE,
+  DEFAULT_QUANTIZE,
+  DEFAULT_SWING,
+  GROOVES,
+  MAX_SWING,
+  MIN_SWING,
+  QUANTIZE_OPTIONS
+} from "@/lib/groove";
+import { DEFAULT_KEY, DEFAULT_SCALE, NOTE_NAMES, SCALES, noteToMidi } from "@/lib/music";
+import { DEFAULT_SYNTH_KIT_ID } from "@/lib/synthKits";
+
+export const CLIP_SCHEMA_VERSION = 3;
+export const CLIPS_KEY = "pulsecanvas-clips";
+export const QUARANTINE_KEY = "pulsecanvas-clips-quarantine";
+export const OWN_CLIPS_KEY = "pulsecanvas-own-clips";
+
+export type ClipIssue = {
+  clipId: string | null;
+  field: string;
+  message: string;
+};
+
+export type QuarantinedClip = {
+  raw: unknown;
+  version: number;
+  issues: ClipIssue[];
+  quarantinedAt: number;
+};
+
+export type ClipLoadResult = {
+  clips: LoopClip[];
+  quarantined: QuarantinedClip[];
+};
+
+type StoredClips = {
+  version: number;
+  clips: unknown[];
+};
+
+type RawClip = Record<string, unknown>;
+
+const PAD_IDS: Record<PadId, true> = { kick: true, snare: true, hat: true, bass: true, lead: true, fx: true };
+
+// MIGRATIONS[n] takes a clip from version n to n + 1
+const MIGRATIONS: Record<number, (clip: RawClip) => RawClip> = {
+  // version 1 is the bare array from before clips had a length, key, mixer, feel or kits;
+  // clips saved part way through that history keep whatever fields they already carry
+  1: (clip) => ({
+    bars: 1,
+    stepsPerBar: GRID_STEPS,
+    key: DEFAULT_KEY,
+    scale: DEFAULT_SCALE,
+    mixer: createDefaultMixer(),
+    kitId: null,
+    synthKitId: DEFAULT_SYNTH_KIT_ID,
+    swing: DEFAULT_SWING,
+    groove: DEFAULT_GROOVE,
+    quantize: DEFAULT_QUANTIZE,
+    likes: 0,
+    remixes: 0,
+    ...clip
+  }),
+  2: (clip) => ({ parentId: null, ...clip })
+};
+
+const isRecord = (value: unknown): value is RawClip =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isInRange = (value: unknown, min: number, max: number) => isFiniteNumber(value) && value >= min && value <= max;
+
+const isOneOf = <T>(options: readonly T[], value: unknown) => options.includes(value as T);
+
+export const formatClipIssue = ({ clipId, field, message }: ClipIssue) =>
+  `Clip ${clipId ? `"${clipId}"` : "(no id)"}${field ? ` field ${field}` : ""}: ${message}`;
+
+/** Brings a stored clip up to the current schema version, or throws if no migration path exists. */
+export function migrateClip(raw: RawClip, version: number): RawClip {
+  if (version > CLIP_SCHEMA_VERSION) {
+    throw new Error(`saved by a newer version (schema ${version})`);
+  }
+  let clip = raw;
+  for (let from = version; from < CLIP_SCHEMA_VERSION; from++) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) throw new Error(`no migration from schema ${from}`);
+    clip = migrate(clip);
+  }
+  return clip;
+}
+
+/** Checks every field the engine relies on, returning the clip only when nothing is wrong. */
+export function validateClip(value: unknown): { clip: LoopClip | null; issues: ClipIssue[] } {
+  if (!isRecord(value)) {
+    return { clip: null, issues: [{ clipId: null, field: "", message: "is not an object" }] };
+  }
+  const clipId = typeof value.id === "string" && value.id ? value.id : null;
+  const issues: ClipIssue[] = [];
+  const check = (field: string, ok: boolean, message: string) => {
+    if (!ok) issues.push({ clipId, field, message });
+  };
+
+  check("id", clipId !== null, "must be a non-empty string");
+  check("title", typeof value.title === "string", "must be a string");
+  check("author", typeof value.author === "string", "must be a string");
+  check("color", typeof value.color === "string", "must be a string");
+  check("bpm", isFiniteNumber(value.bpm) && value.bpm > 0, "must be a positive number");
+  check("bars", isOneOf(BAR_OPTIONS, value.bars), `must be one of ${BAR_OPTIONS.join(", ")}`);
+  check(
+    "stepsPerBar",
+    Number.isInteger(value.stepsPerBar) && (value.stepsPerBar as number) > 0,
+    "must be a positive integer"
+  );
+  check("key", isOneOf(NOTE_NAMES, value.key), "must be a note name");
+  check("scale", typeof value.scale === "string" && value.scale in SCALES, "must be a known scale");
+  check("kitId", value.kitId === null || typeof value.kitId === "string", "must be a string or null");
+  check("synthKitId", typeof value.synthKitId === "string", "must be a string");
+  check("swing", isInRange(value.swing, MIN_SWING, MAX_SWING), `must be between ${MIN_SWING} and ${MAX_SWING}`);
+  check("groove", typeof value.groove === "string" && value.groove in GROOVES, "must be a known groove");
+  check("quantize", isOneOf(QUANTIZE_OPTIONS, value.quantize), "must be a quantize resolution");
+  check("createdAt", isFiniteNumber(value.createdAt), "must be a timestamp");
+  check("likes", Number.isInteger(value.likes) && (value.likes as number) >= 0, "must be a count");
+  check("remixes", Number.isInteger(value.remixes) && (value.remixes as number) >= 0, "must be a count");
+  check("parentId", value.parentId === null || typeof value.parentId === "string", "must be a string or null");
+
+  if (!isRecord(value.mixer)) {
+    check("mixer", false, "must be an object");
+  } else {
+    const mixer = value.mixer;
+    (Object.keys(PAD_IDS) as PadId[]).forEach((padId) => {
+      const channel = mixer[padId];
+      const field = `mixer.${padId}`;
+      if (!isRecord(channel)) {
+        check(field, false, "is missing");
+        return;
+      }
+      check(`${field}.volume`, isFiniteNumber(channel.volume), "must be a number");
+      check(`${field}.pan`, isInRange(channel.pan, -1, 1), "must be between -1 and 1");
+      check(`${field}.send`, isInRange(channel.send, 0, 1), "must be between 0 and 1");
+      check(`${field}.mute`, typeof channel.mute === "boolean", "must be a boolean");
+      check(`${field}.solo`, typeof channel.solo === "boolean", "must be a boolean");
+    });
+  }
+
+  if (!Array.isArray(value.events)) {
+    check("events", false, "must be an array");
+  } else {
+    const totalSteps =
+      isOneOf(BAR_OPTIONS, value.bars) && Number.isInteger(value.stepsPerBar)
+        ? (value.bars as number) * (value.stepsPerBar as number)
+        : Infinity;
+    value.events.forEach((evt: unknown, index) => {
+      const field = `events[${index}]`;
+      if (!isRecord(evt)) {
+        check(field, false, "must be an object");
+        return;
+      }
+      check(
+        `${field}.tick`,
+        Number.isInteger(evt.tick) && (evt.tick as number) >= 0 && (evt.tick as number) < totalSteps,
+        "must be a step inside the clip"
+      );
+      check(`${field}.padId`, typeof evt.padId === "string" && evt.padId in PAD_IDS, "must be a known pad");
+      check(`${field}.velocity`, isInRange(evt.velocity, 0, 1), "must be between 0 and 1");
+      check(
+        `${field}.offset`,
+        evt.offset === undefined || isInRange(evt.offset, -1, 1),
+        "must be a fraction of a step"
+      );
+      check(
+        `${field}.pitch`,
+        evt.pitch === undefined || (typeof evt.pitch === "string" && noteToMidi(evt.pitch) !== null),
+        "must be a note like C4"
+      );
+    });
+  }
+
+  return { clip: issues.length === 0 ? (value as LoopClip) : null, issues };
+}
+
+/**
+ * Migrates and validates a clip kept inside another record, such as a song section,
+ * scene layer or battle contender. Those copies carry no schema version, so every
+ * migration runs; each one only fills in fields the clip lacks. Logs why a clip is
+ * rejected and returns null for it.
+ */
+export function readEmbeddedClip(raw: unknown): LoopClip | null {
+  const { clip, issues } = validateClip(isRecord(raw) ? migrateClip(raw, 1) : raw);
+  issues.forEach((issue) => console.error(formatClipIssue(issue)));
+  return clip;
+}
+
+/**
+ * Reads the stored clip list, migrating each clip to the current schema. Clips that
+ * cannot be migrated or fail validation come back quarantined, together with the
+ * reasons, rather than being dropped.
+ */
+export function parseStoredClips(stored: string | null, now = Date.now()): ClipLoadResult {
+  const result: ClipLoadResult = { clips: [], quarantined: [] };
+  if (!stored) return result;
+
+  const quarantine = (raw: unknown, version: number, issues: ClipIssue[]) =>
+    result.quarantined.push({ raw, version, issues, quarantinedAt: now });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    quarantine(stored, 0, [{ clipId: null, field: "", message: "stored clips are not valid JSON" }]);
+    return result;
+  }
+
+  // before the schema was versioned the clips were stored as a bare array
+  const envelope: StoredClips | null = Array.isArray(parsed)
+    ? { version: 1, clips: parsed }
+    : isRecord(parsed) && Number.isInteger(parsed.version) && Array.isArray(parsed.clips)
+      ? { version: parsed.version as number, clips: parsed.clips }
+      : null;
+  if (!envelope) {
+    quarantine(parsed, 0, [{ clipId: null, field: "", message: "stored clips are not a clip list" }]);
+    return result;
+  }
+
+  envelope.clips.forEach((raw) => {
+    if (!isRecord(raw)) {
+      quarantine(raw, envelope.version, validateClip(raw).issues);
+      return;
+    }
+    let migrated: RawClip;
+    try {
+      migrated = migrateClip(raw, envelope.version);
+    } catch (err) {
+      const clipId = typeof raw.id === "string" ? raw.id : null;
+      quarantine(raw, envelope.version, [{ clipId, field: "", message: (err as Error).message }]);
+      return;
+    }
+    const { clip, issues } = validateClip(migrated);
+    if (clip) {
+      result.clips.push(clip);
+    } else {
+      quarantine(raw, envelope.version, issues);
+    }
+  });
+
+  return result;
+}
+
+/** Loads the saved clips and moves anything invalid into the quarantine list. */
+export function loadClips(storage: Pick<Storage, "getItem" | "setItem"> = localStorage): ClipLoadResult {
+  const result = parseStoredClips(storage.getItem(CLIPS_KEY));
+  if (result.quarantined.length > 0) {
+    storage.setItem(QUARANTINE_KEY, JSON.stringify([...loadQuarantine(storage), ...result.quarantined]));
+  }
+  return result;
+}
+
+export function loadQuarantine(storage: Pick<Storage, "getItem"> = localStorage): QuarantinedClip[] {
+  const stored = storage.getItem(QUARANTINE_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored) as QuarantinedClip[];
+  } catch {
+    return [];
+  }
+}
+
+export function saveClips(clips: LoopClip[], storage: Pick<Storage, "setItem"> = localStorage) {
+  const stored: StoredClips = { version: CLIP_SCHEMA_VERSION, clips };
+  storage.setItem(CLIPS_KEY, JSON.stringify(stored));
+}
+
+/** Ids of the clips made in this browser; every clip says "You" as its author, so this tells them apart. */
+export function loadOwnClipIds(storage: Pick<Storage, "getItem"> = localStorage): string[] {
+  const stored = storage.getItem(OWN_CLIPS_KEY);
+  if (!stored) return [];
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function addOwnClipId(id: string, storage: Pick<Storage, "getItem" | "setItem"> = localStorage) {
+  const ids = loadOwnClipIds(storage);
+  if (!ids.includes(id)) storage.setItem(OWN_CLIPS_KEY, JSON.stringify([...ids, id]));
+}
@@ -0,0 +1,55 @@
+import { randomUUID } from "crypto";
+import { DEFAULT_CLIPS, type LoopClip } from "@/components/AudioEngine";
+import { CLIPS_KEY, formatClipIssue, loadClips, saveClips, validateClip } from "@/lib/clipSchema";
+import { fileStorage } from "@/lib/fileStorage";
+
+function readClips(): LoopClip[] {
+  if (fileStorage.getItem(CLIPS_KEY) === null) {
+    saveClips(DEFAULT_CLIPS, fileStorage);
+  }
+  const { clips, quarantined } = loadClips(fileStorage);
+  quarantined.forEach(({ issues }) => issues.forEach((issue) => console.error(formatClipIssue(issue))));
+  if (quarantined.length > 0) saveClips(clips, fileStorage);
+  return clips;
+}
+
+/** Newest first, the order the feed shows them in. */
+export function listClips(): LoopClip[] {
+  return readClips().sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Stores a posted clip under a fresh id with zeroed counters, throwing if it does not
+ * validate. A parent id records it as a remix and bumps the parent's remix count;
+ * null comes back when that parent does not exist.
+ */
+export function publishClip(value: unknown, parentId: string | null = null): LoopClip | null {
+  const clips = readClips();
+  const parent = parentId === null ? null : clips.find((clip) => clip.id === parentId);
+  if (parent === undefined) return null;
+
+  const { clip, issues } = validateClip({
+    ...(typeof value === "object" && value !== null ? value : {}),
+    id: randomUUID(),
+    createdAt: Date.now(),
+    likes: 0,
+    remixes: 0,
+    parentId
+  });
+  if (!clip) throw new Error(formatClipIssue(issues[0]));
+
+  saveClips(
+    [clip, ...clips.map((item) => (item === parent ? { ...item, remixes: item.remixes + 1 } : item))],
+    fileStorage
+  );
+  return clip;
+}
+
+export function likeClip(id: string): LoopClip | null {
+  const clips = readClips();
+  const clip = clips.find((item) => item.id === id);
+  if (!clip) return null;
+  const liked = { ...clip, likes: clip.likes + 1 };
+  saveClips(clips.map((item) => (item === clip ? liked : item)), fileStorage);
+  return liked;
+}
@@ -0,0 +1,263 @@
+import { EFFECT_IDS, type CameraPreset, type Reactivity } from "@/lib/cameraEffects";
+import { coverCrop } from "@/lib/motion";
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = (a_position + 1.0) * 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`;
+
+const EFFECT_SHADER = `
+precision mediump float;
+varying vec2 v_uv;
+uniform sampler2D u_video;
+uniform sampler2D u_previous;
+uniform vec4 u_crop;
+uniform int u_effect;
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform float u_kick;
+uniform float u_hat;
+uniform float u_level;
+uniform float u_sweep;
+uniform vec4 u_grade;
+
+vec3 camera(vec2 uv) {
+  return texture2D(u_video, u_crop.xy + clamp(uv, 0.0, 1.0) * u_crop.zw).rgb;
+}
+
+float luma(vec3 color) {
+  return dot(color, vec3(0.299, 0.587, 0.114));
+}
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+// rotation about the grey axis, the same as CSS hue-rotate
+vec3 hueRotate(vec3 color, float angle) {
+  vec3 axis = vec3(0.57735);
+  float c = cos(angle);
+  return color * c + cross(axis, color) * sin(angle) + axis * dot(axis, color) * (1.0 - c);
+}
+
+void main() {
+  // kicks punch the picture in toward the centre
+  vec2 uv = (v_uv - 0.5) * (1.0 - 0.04 * u_kick) + 0.5;
+  vec3 color = camera(uv);
+
+  if (u_effect == 1) {
+    vec2 offset = vec2(0.003 + 0.02 * u_kick + 0.01 * u_level, 0.0);
+    color = vec3(camera(uv + offset).r, color.g, camera(uv - offset).b);
+  } else if (u_effect == 2) {
+    float aspect = u_resolution.x / u_resolution.y;
+    vec2 p = (uv - 0.5) * vec2(aspect, 1.0);
+    float slice = 6.28318 / 6.0;
+    float angle = mod(atan(p.y, p.x) + u_time * 0.1 + u_kick * 0.4, slice);
+    angle = abs(angle - slice * 0.5);
+    color = camera(vec2(cos(angle), sin(angle)) * length(p) / vec2(aspect, 1.0) + 0.5);
+  } else if (u_effect == 3) {
+    // the look of a pixel sort without sorting: bright pixels drag down in streaks
+    float threshold = 0.6 - 0.3 * u_level;
+    float reach = (0.04 + 0.12 * u_kick) / 24.0;
+    for (int i = 1; i <= 24; i++) {
+      vec3 above = camera(uv + vec2(0.0, float(i) * reach));
+      float bright = luma(above);
+      if (bright > threshold && bright > luma(color)) color = above;
+    }
+  }
+
+  color = hueRotate(color, u_grade.z + u_sweep * 1.5);
+  color = mix(vec3(luma(color)), color, u_grade.y);
+  color = (color - 0.5) * u_grade.x + 0.5;
+  color *= u_grade.w * (1.0 + 0.25 * u_kick);
+
+  if (u_effect == 4) {
+    // trails: the last frame, pulled toward the centre and fading under this one
+    vec2 back = (v_uv - 0.5) * (0.985 - 0.02 * u_kick) + 0.5;
+    color = max(color, texture2D(u_previous, back).rgb * (0.82 + 0.12 * u_level));
+  }
+
+  color += u_hat * 0.35 * step(0.97, hash(floor(v_uv * u_resolution / 2.0) + fract(u_time) * 91.0));
+  gl_FragColor = vec4(clamp(color, 0.0, 1.0), 1.0);
+}
+`;
+
+const COPY_SHADER = `
+precision mediump float;
+varying vec2 v_uv;
+uniform sampler2D u_image;
+void main() {
+  gl_FragColor = texture2D(u_image, v_uv);
+}
+`;
+
+type Target = {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+};
+
+function compile(gl: WebGLRenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error("Could not create shader");
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+}
+
+function link(gl: WebGLRenderingContext, fragment: string): WebGLProgram {
+  const program = gl.createProgram();
+  if (!program) throw new Error("Could not create shader program");
+  gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, fragment));
+  gl.bindAttribLocation(program, 0, "a_position");
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+function createTexture(gl: WebGLRenderingContext): WebGLTexture {
+  const texture = gl.createTexture();
+  if (!texture) throw new Error("Could not create texture");
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  // camera frames are rarely a power of two, which WebGL 1 only samples clamped and unmipped
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  return texture;
+}
+
+/**
+ * Draws the camera through the preset's effect shader onto a canvas. Each frame
+ * renders into one of two offscreen targets and reads the other, so the feedback
+ * effect can blend in the frame before, then copies the result to the canvas.
+ */
+export class EffectsRenderer {
+  private readonly gl: WebGLRenderingContext;
+  private readonly effectProgram: WebGLProgram;
+  private readonly copyProgram: WebGLProgram;
+  private readonly quad: WebGLBuffer | null;
+  private readonly videoTexture: WebGLTexture;
+  private readonly uniforms = new Map<string, WebGLUniformLocation | null>();
+  private targets: Target[] = [];
+  private targetSize = "";
+  private current = 0;
+
+  /** Throws when the browser has no WebGL, so the caller can fall back to CSS filters. */
+  constructor(private readonly canvas: HTMLCanvasElement) {
+    // the recorder copies this canvas on its own schedule, so frames have to persist
+    const gl = canvas.getContext("webgl", { preserveDrawingBuffer: true, antialias: false });
+    if (!gl) throw new Error("WebGL is not available");
+    this.gl = gl;
+    this.effectProgram = link(gl, EFFECT_SHADER);
+    this.copyProgram = link(gl, COPY_SHADER);
+    this.quad = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quad);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    this.videoTexture = createTexture(gl);
+  }
+
+  render(video: HTMLVideoElement, preset: CameraPreset, reactivity: Reactivity, time: number) {
+    const { gl, canvas } = this;
+    const { videoWidth, videoHeight } = video;
+    if (!videoWidth || !videoHeight || !canvas.width || !canvas.height) return;
+    this.ensureTargets(canvas.width, canvas.height);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.videoTexture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB, gl.RGB, gl.UNSIGNED_BYTE, video);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+
+    const previous = this.targets[this.current];
+    const next = this.targets[1 - this.current];
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, previous.texture);
+
+    const crop = coverCrop(videoWidth, videoHeight, canvas.width / canvas.height);
+    gl.useProgram(this.effectProgram);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, next.framebuffer);
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    gl.uniform1i(this.uniform("u_video"), 0);
+    gl.uniform1i(this.uniform("u_previous"), 1);
+    gl.uniform4f(
+      this.uniform("u_crop"),
+      crop.x / videoWidth,
+      crop.y / videoHeight,
+      crop.width / videoWidth,
+      crop.height / videoHeight
+    );
+    gl.uniform1i(this.uniform("u_effect"), EFFECT_IDS[preset.effect]);
+    gl.uniform1f(this.uniform("u_time"), time);
+    gl.uniform2f(this.uniform("u_resolution"), canvas.width, canvas.height);
+    gl.uniform1f(this.uniform("u_kick"), reactivity.kick);
+    gl.uniform1f(this.uniform("u_hat"), reactivity.hat);
+    gl.uniform1f(this.uniform("u_level"), reactivity.level);
+    gl.uniform1f(this.uniform("u_sweep"), reactivity.sweep);
+    const { contrast, saturation, hue, brightness } = preset.grade;
+    gl.uniform4f(this.uniform("u_grade"), contrast, saturation, (hue * Math.PI) / 180, brightness);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+    gl.useProgram(this.copyProgram);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, next.texture);
+    gl.uniform1i(gl.getUniformLocation(this.copyProgram, "u_image"), 0);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    this.current = 1 - this.current;
+  }
+
+  dispose() {
+    const { gl } = this;
+    this.releaseTargets();
+    gl.deleteTexture(this.videoTexture);
+    gl.deleteBuffer(this.quad);
+    gl.deleteProgram(this.effectProgram);
+    gl.deleteProgram(this.copyProgram);
+  }
+
+  private uniform(name: string): WebGLUniformLocation | null {
+    if (!this.uniforms.has(name)) {
+      this.uniforms.set(name, this.gl.getUniformLocation(this.effectProgram, name));
+    }
+    return this.uniforms.get(name) ?? null;
+  }
+
+  // the feedback targets follow the canvas size, and start black after a resize
+  private ensureTargets(width: number, height: number) {
+    const { gl } = this;
+    if (this.targets.length && this.targetSize === `${width}x${height}`) return;
+    this.releaseTargets();
+    this.targets = [0, 1].map(() => {
+      const texture = createTexture(gl);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+      const framebuffer = gl.createFramebuffer();
+      if (!framebuffer) throw new Error("Could not create framebuffer");
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+      return { texture, framebuffer };
+    });
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    this.targetSize = `${width}x${height}`;
+    this.current = 0;
+  }
+
+  private releaseTargets() {
+    this.targets.forEach(({ texture, framebuffer }) => {
+      this.gl.deleteTexture(texture);
+      this.gl.deleteFramebuffer(framebuffer);
+    });
+    this.targets = [];
+  }
+}
@@ -0,0 +1,72 @@
+import type { LoopClip, PadId } from "@/components/AudioEngine";
+
+export type FeedSort = "newest" | "liked" | "remixed" | "trending";
+
+export type FeedFilter = {
+  query: string;
+  minBpm: number | null;
+  maxBpm: number | null;
+  author: string | null;
+  pads: PadId[]; // a clip must use every one of these
+};
+
+export const FEED_SORTS: Record<FeedSort, string> = {
+  newest: "Newest",
+  liked: "Most liked",
+  remixed: "Most remixed",
+  trending: "Trending"
+};
+
+export const FEED_PAGE_SIZE = 24;
+
+export const DEFAULT_FEED_FILTER: FeedFilter = {
+  query: "",
+  minBpm: null,
+  maxBpm: null,
+  author: null,
+  pads: []
+};
+
+const HOUR = 1000 * 60 * 60;
+const TRENDING_GRAVITY = 1.5;
+
+// engagement decayed by age in hours, Hacker News style, with a remix worth three likes
+export function trendingScore(clip: LoopClip, now = Date.now()): number {
+  const ageHours = Math.max(0, now - clip.createdAt) / HOUR;
+  return (clip.likes + clip.remixes * 3 + 1) / Math.pow(ageHours + 2, TRENDING_GRAVITY);
+}
+
+export const isFeedFiltered = (filter: FeedFilter) =>
+  filter.query.trim() !== "" ||
+  filter.minBpm !== null ||
+  filter.maxBpm !== null ||
+  filter.author !== null ||
+  filter.pads.length > 0;
+
+export function matchesFilter(clip: LoopClip, filter: FeedFilter): boolean {
+  const query = filter.query.trim().toLowerCase();
+  if (query && !clip.title.toLowerCase().includes(query)) return false;
+  if (filter.minBpm !== null && clip.bpm < filter.minBpm) return false;
+  if (filter.maxBpm !== null && clip.bpm > filter.maxBpm) return false;
+  if (filter.author !== null && clip.author !== filter.author) return false;
+  return filter.pads.every((padId) => clip.events.some((evt) => evt.padId === padId));
+}
+
+/** The clips that pass the filter, in the chosen order; ties fall back to newest first. */
+export function queryFeed(clips: LoopClip[], filter: FeedFilter, sort: FeedSort, now = Date.now()): LoopClip[] {
+  const score: Record<FeedSort, (clip: LoopClip) => number> = {
+    newest: (clip) => clip.createdAt,
+    liked: (clip) => clip.likes,
+    remixed: (clip) => clip.remixes,
+    trending: (clip) => trendingScore(clip, now)
+  };
+  // scored once up front so thousands of clips do not recompute inside the comparator
+  return clips
+    .filter((clip) => matchesFilter(clip, filter))
+    .map((clip) => ({ clip, score: score[sort](clip) }))
+    .sort((a, b) => b.score - a.score || b.clip.createdAt - a.clip.createdAt)
+    .map(({ clip }) => clip);
+}
+
+export const feedAuthors = (clips: LoopClip[]) =>
+  Array.from(new Set(clips.map((clip) => clip.author))).sort((a, b) => a.localeCompare(b));
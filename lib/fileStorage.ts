@@ -0,0 +1,29 @@
+import fs from "fs";
+import path from "path";
+
+// server-only: the local backend keeps its data in JSON files under this directory
+const DATA_DIR = process.env.PULSECANVAS_DATA_DIR ?? path.join(process.cwd(), ".data");
+
+const fileFor = (key: string) => path.join(DATA_DIR, `${key}.json`);
+
+/**
+ * A Storage look-alike over files so the route handlers can reuse the same load and
+ * save helpers as the browser. Reads and writes are synchronous, which keeps every
+ * read-modify-write in a handler from interleaving with another request.
+ */
+export const fileStorage: Pick<Storage, "getItem" | "setItem"> = {
+  getItem: (key) => {
+    try {
+      return fs.readFileSync(fileFor(key), "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  },
+  setItem: (key, value) => {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    const file = fileFor(key);
+    fs.writeFileSync(`${file}.tmp`, value);
+    fs.renameSync(`${file}.tmp`, file);
+  }
+};
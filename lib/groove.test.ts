@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { placeTap, quantizeGrid, recordedEvent } from "@/lib/groove";
+
+const stepTicks = 48; // a sixteenth at 192 ppq
+const grid = (quantize: "16n" | "16t" | "off") => ({
+  grid: quantizeGrid(quantize, 16),
+  stepTicks,
+  totalSteps: 32
+});
+
+describe("placeTap", () => {
+  it("snaps forward to the next slot", () => {
+    assert.deepEqual(placeTap(5 * stepTicks + 10, grid("16n")), { tick: 6, offset: 0, ticks: 6 * stepTicks });
+  });
+
+  it("keeps a tap on a slot where it is", () => {
+    assert.deepEqual(placeTap(3 * stepTicks, grid("16n")), { tick: 3, offset: 0, ticks: 3 * stepTicks });
+  });
+
+  it("keeps the offset of an unquantized tap", () => {
+    const placed = placeTap(4 * stepTicks + 12, grid("off"));
+    assert.equal(placed.tick, 4);
+    assert.equal(placed.offset, 0.25);
+    assert.equal(placed.ticks, 4 * stepTicks + 12);
+  });
+
+  it("keeps triplets off the straight steps", () => {
+    // the next triplet slot after step 1 sits a third of the way past it
+    const placed = placeTap(stepTicks + 1, grid("16t"));
+    assert.equal(placed.tick, 1);
+    assert.equal(placed.offset, 0.333);
+    assert.equal(placed.ticks, 64);
+  });
+
+  it("counts steps from the bar the recording layer started on", () => {
+    const bar = 16 * stepTicks;
+    // a 2-bar loop launched on bar 3: its first step is transport step 48
+    const placed = placeTap(3 * bar + 2 * stepTicks, { ...grid("16n"), originTicks: 3 * bar });
+    assert.equal(placed.tick, 2);
+    assert.equal(placeTap(4 * bar, { ...grid("16n"), originTicks: 3 * bar }).tick, 16);
+  });
+
+  it("wraps into the loop", () => {
+    assert.equal(placeTap(33 * stepTicks, grid("16n")).tick, 1);
+  });
+});
+
+describe("recordedEvent", () => {
+  it("keeps the offset of a hit off the grid", () => {
+    const placed = placeTap(4 * stepTicks + 12, grid("off"));
+    assert.deepEqual(recordedEvent("snare", 0.8, placed), {
+      tick: 4,
+      padId: "snare",
+      velocity: 0.8,
+      offset: 0.25
+    });
+  });
+
+  it("keeps triplet hits where they sounded", () => {
+    const placed = placeTap(stepTicks + 1, grid("16t"));
+    assert.deepEqual(recordedEvent("lead", 1, placed, "E4"), {
+      tick: 1,
+      padId: "lead",
+      velocity: 1,
+      offset: 0.333,
+      pitch: "E4"
+    });
+  });
+
+  it("leaves the offset out of hits on the grid", () => {
+    assert.deepEqual(recordedEvent("kick", 1, placeTap(2 * stepTicks, grid("16n"))), {
+      tick: 2,
+      padId: "kick",
+      velocity: 1
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import type { LoopEvent, PadId } from "@/components/AudioEngine";
+
+export type QuantizeResolution = "8n" | "16n" | "16t" | "32n" | "off";
+
+export type GrooveId = "straight" | "mpc54" | "mpc58" | "mpc62" | "mpc66" | "shuffle16" | "shuffle8";
+
+export type GrooveTemplate = {
+  label: string;
+  swing: number; // where the off-beat lands within its pair, 0.5 is straight
+  unit: 1 | 2; // grid steps per half pair: 1 swings sixteenths, 2 swings eighths
+};
+
+export const GROOVES: Record<GrooveId, GrooveTemplate> = {
+  straight: { label: "Straight", swing: 0.5, unit: 1 },
+  mpc54: { label: "MPC 54%", swing: 0.54, unit: 1 },
+  mpc58: { label: "MPC 58%", swing: 0.58, unit: 1 },
+  mpc62: { label: "MPC 62%", swing: 0.62, unit: 1 },
+  mpc66: { label: "MPC 66%", swing: 0.66, unit: 1 },
+  shuffle16: { label: "16th Shuffle", swing: 2 / 3, unit: 1 },
+  shuffle8: { label: "8th Shuffle", swing: 2 / 3, unit: 2 }
+};
+
+export const QUANTIZE_OPTIONS: QuantizeResolution[] = ["8n", "16n", "16t", "32n", "off"];
+
+export const DEFAULT_GROOVE: GrooveId = "straight";
+export const DEFAULT_SWING = GROOVES.straight.swing;
+export const DEFAULT_QUANTIZE: QuantizeResolution = "16n";
+
+export const MIN_SWING = 0.5;
+export const MAX_SWING = 0.75;
+
+// note values as fractions of a 4/4 bar
+const RESOLUTION_BARS: Record<Exclude<QuantizeResolution, "off">, number> = {
+  "8n": 1 / 8,
+  "16n": 1 / 16,
+  "16t": 1 / 24,
+  "32n": 1 / 32
+};
+
+/** Size of one quantize slot in grid steps, or null when quantize is off. */
+export function quantizeGrid(resolution: QuantizeResolution, stepsPerBar: number): number | null {
+  if (resolution === "off") return null;
+  return RESOLUTION_BARS[resolution] * stepsPerBar;
+}
+
+/**
+ * Places a tap on the recording grid. `ticks` is the transport position it lands on;
+ * it is snapped forward to the next quantize slot (left where it fell with quantize off)
+ * and counted in steps from `originTicks`, wrapped into the loop. The step rounding is
+ * kept as `offset`, so off-grid taps and triplets play back where they were heard.
+ */
+export function placeTap(
+  ticks: number,
+  {
+    grid,
+    stepTicks,
+    totalSteps,
+    originTicks = 0
+  }: { grid: number | null; stepTicks: number; totalSteps: number; originTicks?: number }
+): { tick: number; offset: number; ticks: number } {
+  const position = ticks / stepTicks;
+  const snapped = grid === null ? position : Math.ceil(position / grid - 1e-6) * grid;
+  const nearest = Math.round(snapped);
+  const origin = Math.round(originTicks / stepTicks);
+  return {
+    tick: (((nearest - origin) % totalSteps) + totalSteps) % totalSteps,
+    offset: Math.round((snapped - nearest) * 1000) / 1000,
+    ticks: Math.round(snapped * stepTicks)
+  };
+}
+
+/** The event a live hit records, keeping its pitch and whatever offset it lies off the grid. */
+export const recordedEvent = (
+  padId: PadId,
+  velocity: number,
+  { tick, offset = 0 }: { tick: number; offset?: number },
+  pitch?: string
+): LoopEvent => ({
+  tick,
+  padId,
+  velocity,
+  ...(offset !== 0 && { offset }),
+  ...(pitch !== undefined && { pitch })
+});
+
+/**
+ * Where an event sounds, in (fractional) grid steps from the start of the clip:
+ * its tick, plus any unquantized offset, plus the swing delay for off-beats,
+ * wrapped back into the loop.
+ */
+export function eventPosition(
+  evt: { tick: number; offset?: number },
+  { swing, groove, totalSteps }: { swing: number; groove: GrooveId; totalSteps: number }
+): number {
+  const tick = ((evt.tick % totalSteps) + totalSteps) % totalSteps;
+  const { unit } = GROOVES[groove];
+  const swingDelay = tick % (unit * 2) === unit ? (2 * swing - 1) * unit : 0;
+  const position = tick + (evt.offset ?? 0) + swingDelay;
+  return ((position % totalSteps) + totalSteps) % totalSteps;
+}
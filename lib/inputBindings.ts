@@ -0,0 +1,262 @@
+import { PAD_META, type PadId } from "@/components/AudioEngine";
+
+export type TransportAction = "playStop" | "clear" | "save" | "preview" | "bpmUp" | "bpmDown";
+
+export type BindingTarget = PadId | TransportAction;
+
+export type InputBindings = {
+  keys: Record<string, BindingTarget>; // KeyboardEvent.code, so bindings stay put across keyboard layouts
+  buttons: Record<string, BindingTarget>; // button index in the standard gamepad layout
+  hints: boolean; // key labels over the pads
+};
+
+export type KeyPress = Pick<KeyboardEvent, "code" | "repeat" | "altKey" | "ctrlKey" | "metaKey">;
+
+export type GamepadState = {
+  id: string;
+  buttons: ReadonlyArray<Pick<GamepadButton, "pressed" | "value">>;
+};
+
+export type InputHandlers = {
+  onPad: (padId: PadId, velocity: number) => void;
+  onAction: (action: TransportAction) => void;
+  onBindingsChange?: (bindings: InputBindings) => void;
+  onGamepadsChange?: (names: string[]) => void;
+};
+
+export const INPUT_BINDINGS_KEY = "pulsecanvas-input-bindings";
+
+export const TRANSPORT_ACTIONS: TransportAction[] = [
+  "playStop",
+  "clear",
+  "save",
+  "preview",
+  "bpmUp",
+  "bpmDown"
+];
+
+export const BPM_NUDGE = 1;
+
+// the analog triggers shape velocity instead of firing anything: the right one
+// accents hits, the left one softens them
+const SOFT_TRIGGER = 6;
+const ACCENT_TRIGGER = 7;
+const BASE_VELOCITY = 0.75;
+const MIN_VELOCITY = 0.2;
+
+// a home row for finger drumming
+export const DEFAULT_BINDINGS: InputBindings = {
+  keys: {
+    KeyA: "kick",
+    KeyS: "snare",
+    KeyD: "hat",
+    KeyF: "bass",
+    KeyG: "lead",
+    KeyH: "fx",
+    Space: "playStop",
+    Backspace: "clear",
+    Enter: "save",
+    KeyP: "preview",
+    ArrowUp: "bpmUp",
+    ArrowDown: "bpmDown"
+  },
+  buttons: {
+    0: "kick",
+    1: "snare",
+    2: "hat",
+    3: "bass",
+    4: "lead",
+    5: "fx",
+    8: "clear",
+    9: "playStop",
+    12: "bpmUp",
+    13: "bpmDown",
+    14: "preview",
+    15: "save"
+  },
+  hints: true
+};
+
+const KEY_SYMBOLS: Record<string, string> = {
+  Space: "Space",
+  Backspace: "⌫",
+  Enter: "↵",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→"
+};
+
+// names for the standard gamepad layout, by button index
+const BUTTON_NAMES = "A B X Y LB RB LT RT Select Start L3 R3 D↑ D↓ D← D→ Home".split(" ");
+
+export const isPadTarget = (target: BindingTarget): target is PadId => target in PAD_META;
+
+const isBindingTarget = (value: unknown): value is BindingTarget =>
+  typeof value === "string" && (value in PAD_META || TRANSPORT_ACTIONS.includes(value as TransportAction));
+
+export const keyLabel = (code: string) => KEY_SYMBOLS[code] ?? code.replace(/^(Key|Digit|Numpad)/, "");
+
+export const buttonLabel = (button: string) => BUTTON_NAMES[Number(button)] ?? `Button ${button}`;
+
+/** The input bound to `target`, if any. */
+export const inputFor = (inputs: Record<string, BindingTarget>, target: BindingTarget) =>
+  Object.entries(inputs).find(([, bound]) => bound === target)?.[0];
+
+/** Hit velocity from how far the analog triggers are pulled. */
+export function gamepadVelocity(pad: GamepadState): number {
+  const soft = pad.buttons[SOFT_TRIGGER]?.value ?? 0;
+  const accent = pad.buttons[ACCENT_TRIGGER]?.value ?? 0;
+  const velocity = BASE_VELOCITY + (1 - BASE_VELOCITY) * accent - (BASE_VELOCITY - MIN_VELOCITY) * soft;
+  return Math.min(1, Math.max(MIN_VELOCITY, velocity));
+}
+
+const pickTargets = (inputs: unknown): Record<string, BindingTarget> =>
+  Object.fromEntries(
+    Object.entries(typeof inputs === "object" && inputs ? inputs : {}).filter(([, target]) =>
+      isBindingTarget(target)
+    )
+  );
+
+export function loadInputBindings(storage: Pick<Storage, "getItem"> = localStorage): InputBindings {
+  const stored = storage.getItem(INPUT_BINDINGS_KEY);
+  if (!stored) return DEFAULT_BINDINGS;
+  try {
+    const parsed = JSON.parse(stored) as Partial<InputBindings>;
+    return {
+      keys: parsed.keys ? pickTargets(parsed.keys) : DEFAULT_BINDINGS.keys,
+      buttons: parsed.buttons ? pickTargets(parsed.buttons) : DEFAULT_BINDINGS.buttons,
+      hints: parsed.hints ?? DEFAULT_BINDINGS.hints
+    };
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+}
+
+export function saveInputBindings(bindings: InputBindings, storage: Pick<Storage, "setItem"> = localStorage) {
+  storage.setItem(INPUT_BINDINGS_KEY, JSON.stringify(bindings));
+}
+
+// typing in a field should never play the pads
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Routes key presses and gamepad buttons to pads and transport actions. Learning a
+ * target binds it to the next key or button pressed, taking it off whatever input it
+ * had before. handleKey and handleGamepads only read plain key and button state;
+ * start() feeds them from the window's key presses and a gamepad poll.
+ */
+export class InputBindingsController {
+  private learning: BindingTarget | null = null;
+  private pressed = new Map<number, boolean[]>(); // buttons held at the last poll, per gamepad
+  private frame = 0;
+  private readonly keyListener = (event: KeyboardEvent) => {
+    if (isTyping(event.target)) return;
+    if (this.handleKey(event)) event.preventDefault();
+  };
+  private readonly connectionListener = () => {
+    this.handlers.onGamepadsChange?.(this.connectedGamepads().map((pad) => pad.id));
+  };
+
+  constructor(
+    private readonly handlers: InputHandlers,
+    private bindings: InputBindings = DEFAULT_BINDINGS
+  ) {}
+
+  getBindings(): InputBindings {
+    return this.bindings;
+  }
+
+  setBindings(bindings: InputBindings) {
+    this.bindings = bindings;
+  }
+
+  getLearnTarget(): BindingTarget | null {
+    return this.learning;
+  }
+
+  learn(target: BindingTarget | null) {
+    this.learning = target;
+  }
+
+  /** Returns whether the key was used, so the caller can stop the browser acting on it. */
+  handleKey(event: KeyPress): boolean {
+    if (event.repeat || event.altKey || event.ctrlKey || event.metaKey) return false;
+    if (this.learning) {
+      this.bind("keys", event.code);
+      return true;
+    }
+    const target = this.bindings.keys[event.code];
+    if (!target) return false;
+    this.fire(target, 1);
+    return true;
+  }
+
+  /** Fires the buttons that went down since the last call. */
+  handleGamepads(gamepads: ReadonlyArray<GamepadState | null>) {
+    gamepads.forEach((pad, index) => {
+      if (!pad) return;
+      const before = this.pressed.get(index) ?? [];
+      const now = pad.buttons.map((button) => button.pressed);
+      this.pressed.set(index, now);
+      now.forEach((down, button) => {
+        if (!down || before[button] || button === SOFT_TRIGGER || button === ACCENT_TRIGGER) return;
+        if (this.learning) {
+          this.bind("buttons", String(button));
+          return;
+        }
+        const target = this.bindings.buttons[button];
+        if (target) this.fire(target, gamepadVelocity(pad));
+      });
+    });
+  }
+
+  start() {
+    window.addEventListener("keydown", this.keyListener);
+    window.addEventListener("gamepadconnected", this.connectionListener);
+    window.addEventListener("gamepaddisconnected", this.connectionListener);
+    // gamepads have no button events, so they are polled once a frame
+    const poll = () => {
+      this.frame = requestAnimationFrame(poll);
+      this.handleGamepads(navigator.getGamepads());
+    };
+    if (typeof navigator.getGamepads === "function") this.frame = requestAnimationFrame(poll);
+  }
+
+  dispose() {
+    window.removeEventListener("keydown", this.keyListener);
+    window.removeEventListener("gamepadconnected", this.connectionListener);
+    window.removeEventListener("gamepaddisconnected", this.connectionListener);
+    cancelAnimationFrame(this.frame);
+  }
+
+  private connectedGamepads(): Gamepad[] {
+    if (typeof navigator.getGamepads !== "function") return [];
+    return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null);
+  }
+
+  private fire(target: BindingTarget, velocity: number) {
+    if (isPadTarget(target)) {
+      this.handlers.onPad(target, velocity);
+    } else {
+      this.handlers.onAction(target);
+    }
+  }
+
+  private bind(device: "keys" | "buttons", input: string) {
+    const target = this.learning;
+    if (!target) return;
+    const inputs = Object.fromEntries(
+      Object.entries(this.bindings[device]).filter(([, bound]) => bound !== target)
+    );
+    this.learning = null;
+    this.updateBindings({ ...this.bindings, [device]: { ...inputs, [input]: target } });
+  }
+
+  private updateBindings(next: InputBindings) {
+    this.bindings = next;
+    this.handlers.onBindingsChange?.(next);
+  }
+}
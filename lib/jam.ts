@@ -0,0 +1,270 @@
+import type { BarCount, LoopEvent, PadId } from "@/components/AudioEngine";
+
+export type JamStatus = "connecting" | "open" | "closed";
+
+export type JamPeer = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+/**
+ * The room's shared transport: at anchorTime on the relay's clock it stood at
+ * anchorTicks, moving at bpm from then on.
+ */
+export type JamTransport = {
+  bpm: number;
+  anchorTime: number;
+  anchorTicks: number;
+};
+
+export type JamPattern = {
+  bars: BarCount;
+  events: LoopEvent[];
+};
+
+export type JamHit = {
+  padId: PadId;
+  ticks: number; // transport ticks the hit sounds at
+  step: number; // grid step it records to in the shared pattern
+  offset?: number; // fraction of a step off that grid step, for unquantized and triplet hits
+  velocity: number;
+  pitch?: string;
+};
+
+export type ClockSample = {
+  sentAt: number;
+  receivedAt: number;
+  serverTime: number;
+};
+
+type Outgoing =
+  | { type: "join"; room: string; name: string; color: string }
+  | { type: "ping"; sentAt: number }
+  | ({ type: "hit" } & JamHit)
+  | ({ type: "transport" } & JamTransport)
+  | ({ type: "pattern" } & JamPattern);
+
+type Incoming =
+  | { type: "welcome"; id: string; peers: JamPeer[]; retained: Incoming[] }
+  | { type: "presence"; peers: JamPeer[] }
+  | { type: "pong"; sentAt: number; serverTime: number }
+  | ({ type: "hit"; from: string } & JamHit)
+  | ({ type: "transport"; from: string } & JamTransport)
+  | ({ type: "pattern"; from: string } & JamPattern);
+
+export type JamHandlers = {
+  onHit: (hit: JamHit, peer: JamPeer | null) => void;
+  onTransport: (transport: JamTransport) => void;
+  onPattern: (pattern: JamPattern) => void;
+  onPeersChange: (peers: JamPeer[]) => void;
+  onStatusChange: (status: JamStatus) => void;
+  /** Where the local transport is now, used to start the room's clock if nobody has. */
+  getTransport: () => { ticks: number; bpm: number };
+};
+
+export type JamOptions = {
+  room: string;
+  name: string;
+  color: string;
+  ppq: number;
+};
+
+export const JAM_PORT = 3001;
+
+// local hits in a jam are scheduled this far ahead so peers receive them before they sound
+export const JAM_LEAD = 0.12;
+
+// how often each peer pulls its transport back onto the shared clock, in ms
+export const JAM_SYNC_INTERVAL = 500;
+
+const PING_BURST = 5;
+const PING_BURST_INTERVAL = 150;
+const PING_INTERVAL = 2000;
+const CLOCK_SAMPLES = 8;
+
+export function defaultJamUrl(location: Pick<Location, "protocol" | "hostname">): string {
+  const configured = process.env.NEXT_PUBLIC_JAM_URL;
+  if (configured) return configured;
+  return `${location.protocol === "https:" ? "wss" : "ws"}://${location.hostname}:${JAM_PORT}`;
+}
+
+/**
+ * Relay clock minus local clock, NTP style: the round trip with the least delay
+ * is the one whose midpoint best matches the moment the relay stamped it.
+ */
+export function estimateClockOffset(samples: ClockSample[]): number | null {
+  if (samples.length === 0) return null;
+  const best = samples.reduce((a, b) => (b.receivedAt - b.sentAt < a.receivedAt - a.sentAt ? b : a));
+  return best.serverTime - (best.sentAt + best.receivedAt) / 2;
+}
+
+export const transportTicksAt = (transport: JamTransport, time: number, ppq: number) =>
+  transport.anchorTicks + ((time - transport.anchorTime) / 1000) * (transport.bpm / 60) * ppq;
+
+/** Restarts the shared clock at a new tempo from wherever it stands at `time`. */
+export function retimeTransport(transport: JamTransport, time: number, bpm: number, ppq: number): JamTransport {
+  return { bpm, anchorTime: time, anchorTicks: transportTicksAt(transport, time, ppq) };
+}
+
+const localNow = () => performance.timeOrigin + performance.now();
+
+/**
+ * One participant's side of a jam room on the relay: joins the room, keeps a
+ * running estimate of the relay clock, and turns relay messages into handler calls.
+ * Takes the socket instead of opening it so tests can hand in a mock.
+ */
+export class JamSession {
+  private id: string | null = null;
+  private peers: JamPeer[] = [];
+  private transport: JamTransport | null = null;
+  private samples: ClockSample[] = [];
+  private pings = 0;
+  private pingTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly socket: WebSocket,
+    private readonly handlers: JamHandlers,
+    private readonly options: JamOptions
+  ) {
+    this.handlers.onStatusChange("connecting");
+    this.socket.onopen = () => {
+      this.handlers.onStatusChange("open");
+      this.send({ type: "join", room: options.room, name: options.name, color: options.color });
+      this.ping();
+    };
+    this.socket.onclose = () => {
+      this.stopPinging();
+      this.handlers.onStatusChange("closed");
+    };
+    this.socket.onerror = () => console.error(new Error(`Jam relay connection failed (${this.socket.url})`));
+    this.socket.onmessage = (event: MessageEvent) => {
+      try {
+        this.handleMessage(JSON.parse(String(event.data)) as Incoming);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+  }
+
+  getPeerId(): string | null {
+    return this.id;
+  }
+
+  getTransport(): JamTransport | null {
+    return this.transport;
+  }
+
+  /** Local time moved onto the relay's clock, null until the first round trip. */
+  serverNow(): number | null {
+    const offset = estimateClockOffset(this.samples);
+    return offset === null ? null : localNow() + offset;
+  }
+
+  /** Where the shared transport should be right now. */
+  transportTicks(): number | null {
+    const now = this.serverNow();
+    return this.transport && now !== null ? transportTicksAt(this.transport, now, this.options.ppq) : null;
+  }
+
+  sendHit(hit: JamHit) {
+    this.send({ type: "hit", ...hit });
+  }
+
+  sendPattern(pattern: JamPattern) {
+    this.send({ type: "pattern", ...pattern });
+  }
+
+  setTempo(bpm: number) {
+    const now = this.serverNow();
+    if (!this.transport || now === null || this.transport.bpm === bpm) return;
+    this.publishTransport(retimeTransport(this.transport, now, bpm, this.options.ppq));
+  }
+
+  dispose() {
+    this.stopPinging();
+    this.socket.onopen = null;
+    this.socket.onclose = null;
+    this.socket.onerror = null;
+    this.socket.onmessage = null;
+    this.socket.close();
+    this.handlers.onStatusChange("closed");
+  }
+
+  handleMessage(message: Incoming) {
+    switch (message.type) {
+      case "welcome":
+        this.id = message.id;
+        this.updatePeers(message.peers);
+        message.retained.forEach((retained) => this.handleMessage(retained));
+        this.claimTransport();
+        break;
+      case "presence":
+        this.updatePeers(message.peers);
+        break;
+      case "pong":
+        this.samples = [
+          ...this.samples.slice(1 - CLOCK_SAMPLES),
+          { sentAt: message.sentAt, receivedAt: localNow(), serverTime: message.serverTime }
+        ];
+        this.claimTransport();
+        break;
+      case "hit": {
+        const { type: _type, from, ...hit } = message;
+        this.handlers.onHit(hit, this.peers.find((peer) => peer.id === from) ?? null);
+        break;
+      }
+      case "transport": {
+        const { type: _type, from: _from, ...transport } = message;
+        this.transport = transport;
+        this.handlers.onTransport(transport);
+        break;
+      }
+      case "pattern": {
+        const { type: _type, from: _from, ...pattern } = message;
+        this.handlers.onPattern(pattern);
+        break;
+      }
+    }
+  }
+
+  // the first one in starts the room's clock from their own transport, once the
+  // welcome has shown nobody else has and the relay clock is known
+  private claimTransport() {
+    const now = this.serverNow();
+    if (this.transport || this.id === null || now === null) return;
+    const { ticks, bpm } = this.handlers.getTransport();
+    this.publishTransport({ bpm, anchorTime: now, anchorTicks: ticks });
+  }
+
+  // the relay echoes transport messages back to everyone, so every peer, this one
+  // included, adopts whichever claim reached it last
+  private publishTransport(transport: JamTransport) {
+    this.transport = transport;
+    this.send({ type: "transport", ...transport });
+  }
+
+  private updatePeers(peers: JamPeer[]) {
+    this.peers = peers;
+    this.handlers.onPeersChange(peers);
+  }
+
+  private ping() {
+    this.send({ type: "ping", sentAt: localNow() });
+    this.pings += 1;
+    // a quick burst settles the offset on joining, then occasional pings track drift
+    const delay = this.pings < PING_BURST ? PING_BURST_INTERVAL : PING_INTERVAL;
+    this.pingTimer = setTimeout(() => this.ping(), delay);
+  }
+
+  private stopPinging() {
+    if (this.pingTimer) clearTimeout(this.pingTimer);
+    this.pingTimer = null;
+  }
+
+  private send(message: Outgoing) {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
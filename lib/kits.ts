@@ -0,0 +1,85 @@
+import type { PadId } from "@/components/AudioEngine";
+
+export type KitSample = {
+  name: string;
+  audio: Blob;
+  trimStart: number; // seconds into the file
+  trimEnd: number | null; // seconds into the file, null plays to the end
+  gain: number; // dB
+  chokeGroup: number | null; // a hit cuts off anything still ringing in the same group
+};
+
+export type SampleKit = {
+  id: string;
+  name: string;
+  createdAt: number;
+  pads: Partial<Record<PadId, KitSample>>;
+};
+
+export const SAMPLE_ACCEPT = ".wav,.mp3,.ogg,audio/wav,audio/x-wav,audio/mpeg,audio/ogg";
+export const CHOKE_GROUPS = [1, 2, 3, 4];
+
+const DB_NAME = "pulsecanvas";
+const DB_VERSION = 1;
+const KIT_STORE = "kits";
+
+const isSupportedSample = (file: File) =>
+  /\.(wav|mp3|ogg)$/i.test(file.name) || /^audio\/(wav|x-wav|wave|mpeg|ogg)$/.test(file.type);
+
+export function createSample(file: File): KitSample {
+  if (!isSupportedSample(file)) {
+    throw new Error(`Unsupported sample format: ${file.name}`);
+  }
+  return {
+    name: file.name.replace(/\.[^.]+$/, ""),
+    audio: file,
+    trimStart: 0,
+    trimEnd: null,
+    gain: 0,
+    chokeGroup: null
+  };
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(KIT_STORE, { keyPath: "id" });
+    };
+    dbPromise = promisify(request).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+async function kitStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb();
+  return db.transaction(KIT_STORE, mode).objectStore(KIT_STORE);
+}
+
+export async function listKits(): Promise<SampleKit[]> {
+  const kits = await promisify((await kitStore("readonly")).getAll() as IDBRequest<SampleKit[]>);
+  return kits.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveKit(kit: SampleKit): Promise<void> {
+  await promisify((await kitStore("readwrite")).put(kit));
+}
+
+export async function deleteKit(id: string): Promise<void> {
+  await promisify((await kitStore("readwrite")).delete(id));
+}
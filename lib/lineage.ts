@@ -0,0 +1,28 @@
+import type { LoopClip } from "@/components/AudioEngine";
+
+export type RemixNode = {
+  clip: LoopClip;
+  remixes: RemixNode[];
+};
+
+/** Every remix descended from a clip, oldest first at each level. */
+export function remixTree(clips: LoopClip[], rootId: string): RemixNode[] {
+  const children = new Map<string, LoopClip[]>();
+  clips.forEach((clip) => {
+    if (clip.parentId) children.set(clip.parentId, [...(children.get(clip.parentId) ?? []), clip]);
+  });
+  // a hand-edited store could hold a parent loop, so each clip is visited once
+  const seen = new Set<string>([rootId]);
+  const build = (id: string): RemixNode[] =>
+    (children.get(id) ?? [])
+      .filter((clip) => !seen.has(clip.id))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((clip) => {
+        seen.add(clip.id);
+        return { clip, remixes: build(clip.id) };
+      });
+  return build(rootId);
+}
+
+export const countRemixes = (nodes: RemixNode[]): number =>
+  nodes.reduce((total, node) => total + 1 + countRemixes(node.remixes), 0);
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_CLIPS, MELODIC_PADS, type LoopClip } from "@/components/AudioEngine";
+import { DEFAULT_NOTE_MAP, clipToMidi, midiToClip } from "@/lib/midi";
+import { noteToMidi } from "@/lib/music";
+import { BUILT_IN_SYNTH_KITS } from "@/lib/synthKits";
+
+const clip: LoopClip = {
+  ...DEFAULT_CLIPS[0],
+  bars: 1,
+  events: [
+    { tick: 0, padId: "kick", velocity: 1 },
+    { tick: 4, padId: "snare", velocity: 0.5 },
+    { tick: 8, padId: "bass", velocity: 1, pitch: "A1" },
+    { tick: 12, padId: "lead", velocity: 1, pitch: "E5" },
+    { tick: 14, padId: "fx", velocity: 1 }
+  ]
+};
+
+// [status, note] of every note-on in a type 0 file, whose track only holds meta events and notes
+function noteOns(data: ArrayBuffer): Array<[number, number]> {
+  const bytes = new Uint8Array(data);
+  const found: Array<[number, number]> = [];
+  for (let i = 22; i < bytes.length - 2; i++) {
+    // a note-on status follows the last byte of a delta time and comes before a non-zero velocity
+    if ((bytes[i] & 0xf0) === 0x90 && bytes[i + 2] > 0 && bytes[i - 1] < 0x80) {
+      found.push([bytes[i], bytes[i + 1]]);
+    }
+  }
+  return found;
+}
+
+describe("clipToMidi", () => {
+  it("puts drums on the GM drum channel and melodic pads on channels of their own", () => {
+    assert.deepEqual(noteOns(clipToMidi(clip, { format: 0 })), [
+      [0x99, DEFAULT_NOTE_MAP.kick],
+      [0x99, DEFAULT_NOTE_MAP.snare],
+      [0x90, 33],
+      [0x91, 76],
+      [0x92, 67]
+    ]);
+  });
+
+  it("plays melodic hits without a pitch at their voice's own note", () => {
+    const unpitched: LoopClip = {
+      ...clip,
+      events: MELODIC_PADS.map((padId, tick) => ({ tick, padId, velocity: 1 }))
+    };
+    const voices = BUILT_IN_SYNTH_KITS[0].voices;
+    assert.deepEqual(
+      noteOns(clipToMidi(unpitched, { format: 0 })).map(([, note]) => note),
+      MELODIC_PADS.map((padId) => noteToMidi(voices[padId].note))
+    );
+  });
+
+  it("writes one track per pad after the tempo track in type 1", () => {
+    const header = new DataView(clipToMidi(clip));
+    assert.equal(header.getUint16(8), 1);
+    assert.equal(header.getUint16(10), 6);
+  });
+
+  it("reads its own drum hits back", () => {
+    const imported = midiToClip(clipToMidi({ ...clip, events: clip.events.slice(0, 2) }));
+    assert.equal(imported.bpm, Math.round(clip.bpm));
+    assert.equal(imported.title, clip.title);
+    assert.deepEqual(imported.events, [
+      { tick: 0, padId: "kick", velocity: 1 },
+      { tick: 4, padId: "snare", velocity: 0.5 }
+    ]);
+  });
+
+  it("reads melodic pads back at their pitch", () => {
+    const melodic: LoopClip = {
+      ...clip,
+      events: [
+        { tick: 0, padId: "bass", velocity: 1, pitch: "C2" },
+        { tick: 0, padId: "bass", velocity: 1, pitch: "G2" },
+        { tick: 8, padId: "lead", velocity: 1, pitch: "D#4" },
+        { tick: 12, padId: "kick", velocity: 1 }
+      ]
+    };
+    for (const format of [0, 1] as const) {
+      assert.deepEqual(midiToClip(clipToMidi(melodic, { format })).events, melodic.events);
+    }
+  });
+});
@@ -0,0 +1,340 @@
+import {
+  BAR_OPTIONS,
+  GRID_STEPS,
+  MELODIC_PADS,
+  PAD_META,
+  type BarCount,
+  type LoopClip,
+  type LoopEvent,
+  type MelodicPadId,
+  type PadId
+} from "@/components/AudioEngine";
+import { midiToNote, noteToMidi } from "@/lib/music";
+import { BUILT_IN_SYNTH_KITS, findSynthKit, type SynthKit } from "@/lib/synthKits";
+
+export type MidiFormat = 0 | 1;
+export type MidiNoteMap = Record<PadId, number>;
+
+export type MidiExportOptions = {
+  format?: MidiFormat;
+  noteMap?: MidiNoteMap;
+  ppq?: number;
+  synthKit?: SynthKit; // whose voices give the note of a melodic hit without a pitch
+};
+
+export type MidiImportOptions = {
+  noteMap?: MidiNoteMap;
+  stepsPerBar?: number;
+};
+
+export type ImportedGroove = Pick<LoopClip, "bpm" | "bars" | "stepsPerBar" | "events"> & {
+  title: string | null;
+};
+
+// GM percussion for the drum pads; toms and a crash stand in for the melodic pads on the drum channel
+export const DEFAULT_NOTE_MAP: MidiNoteMap = {
+  kick: 36,
+  snare: 38,
+  hat: 42,
+  bass: 41,
+  lead: 48,
+  fx: 49
+};
+
+const DEFAULT_PPQ = 96;
+const DRUM_CHANNEL = 9;
+// every melodic pad gets a channel of its own from 0 up, in MELODIC_PADS order
+const channelFor = (padId: PadId) => {
+  const melodic = MELODIC_PADS.indexOf(padId as MelodicPadId);
+  return melodic === -1 ? DRUM_CHANNEL : melodic;
+};
+const BEATS_PER_BAR = 4;
+
+type TrackEvent = { tick: number; bytes: number[] };
+
+function varLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+}
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0) & 0x7f);
+
+const uint32 = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff
+];
+
+const uint16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+
+function metaEvent(tick: number, type: number, data: number[]): TrackEvent {
+  return { tick, bytes: [0xff, type, ...varLength(data.length), ...data] };
+}
+
+function encodeTrack(events: TrackEvent[], endTick: number): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick);
+  const body: number[] = [];
+  let cursor = 0;
+  for (const event of sorted) {
+    body.push(...varLength(event.tick - cursor), ...event.bytes);
+    cursor = event.tick;
+  }
+  body.push(...varLength(Math.max(0, endTick - cursor)), 0xff, 0x2f, 0x00);
+  return [...ascii("MTrk"), ...uint32(body.length), ...body];
+}
+
+function noteEvents(
+  events: LoopEvent[],
+  noteMap: MidiNoteMap,
+  synthKit: SynthKit,
+  ticksPerStep: number
+): TrackEvent[] {
+  const length = Math.max(1, Math.floor(ticksPerStep / 2));
+  return events.flatMap((evt) => {
+    const channel = channelFor(evt.padId);
+    // a melodic hit without a pitch sounds at its voice's own note
+    const fallback = channel === DRUM_CHANNEL ? null : noteToMidi(synthKit.voices[evt.padId].note);
+    const pitch = evt.pitch ? noteToMidi(evt.pitch) : fallback;
+    const note = Math.max(0, Math.min(127, pitch ?? noteMap[evt.padId]));
+    const velocity = Math.max(1, Math.min(127, Math.round(evt.velocity * 127)));
+    const start = Math.max(0, Math.round((evt.tick + (evt.offset ?? 0)) * ticksPerStep));
+    return [
+      { tick: start, bytes: [0x90 | channel, note, velocity] },
+      { tick: start + length, bytes: [0x80 | channel, note, 0] }
+    ];
+  });
+}
+
+/**
+ * Writes a clip as a Standard MIDI File. Type 0 puts everything on one track,
+ * type 1 gives each pad its own track after a tempo track. Drums go out on the GM
+ * drum channel and the melodic pads at their own pitch on channels of their own.
+ */
+export function clipToMidi(
+  clip: LoopClip,
+  {
+    format = 1,
+    noteMap = DEFAULT_NOTE_MAP,
+    ppq = DEFAULT_PPQ,
+    synthKit = findSynthKit(BUILT_IN_SYNTH_KITS, clip.synthKitId)
+  }: MidiExportOptions = {}
+): ArrayBuffer {
+  const ticksPerStep = (ppq * BEATS_PER_BAR) / clip.stepsPerBar;
+  const endTick = clip.bars * BEATS_PER_BAR * ppq;
+  const microsPerQuarter = Math.round(60_000_000 / clip.bpm);
+  const tempoEvents = [
+    metaEvent(0, 0x03, ascii(clip.title)),
+    metaEvent(0, 0x51, uint32(microsPerQuarter).slice(1)),
+    metaEvent(0, 0x58, [BEATS_PER_BAR, 2, 24, 8])
+  ];
+
+  const padTracks = (Object.keys(PAD_META) as PadId[])
+    .map((padId) => ({ padId, events: clip.events.filter((evt) => evt.padId === padId) }))
+    .filter((track) => track.events.length > 0)
+    .map((track) =>
+      encodeTrack(
+        [
+          metaEvent(0, 0x03, ascii(track.padId)),
+          ...noteEvents(track.events, noteMap, synthKit, ticksPerStep)
+        ],
+        endTick
+      )
+    );
+  const tracks =
+    format === 0
+      ? [encodeTrack([...tempoEvents, ...noteEvents(clip.events, noteMap, synthKit, ticksPerStep)], endTick)]
+      : [encodeTrack(tempoEvents, endTick), ...padTracks];
+
+  const header = [
+    ...ascii("MThd"),
+    ...uint32(6),
+    ...uint16(format),
+    ...uint16(tracks.length),
+    ...uint16(ppq)
+  ];
+  const bytes = [...header, ...tracks.flat()];
+  const output = new ArrayBuffer(bytes.length);
+  new Uint8Array(output).set(bytes);
+  return output;
+}
+
+class MidiReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get position() {
+    return this.offset;
+  }
+
+  done(end = this.bytes.length) {
+    return this.offset >= end;
+  }
+
+  byte() {
+    if (this.offset >= this.bytes.length) {
+      throw new Error("Unexpected end of MIDI data");
+    }
+    return this.bytes[this.offset++];
+  }
+
+  peek() {
+    return this.bytes[this.offset];
+  }
+
+  skip(count: number) {
+    this.offset += count;
+  }
+
+  text(length: number) {
+    let value = "";
+    for (let i = 0; i < length; i++) value += String.fromCharCode(this.byte());
+    return value;
+  }
+
+  uint(length: number) {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = value * 256 + this.byte();
+    return value;
+  }
+
+  varLength() {
+    let value = 0;
+    let current: number;
+    do {
+      current = this.byte();
+      value = value * 128 + (current & 0x7f);
+    } while (current & 0x80);
+    return value;
+  }
+}
+
+type ParsedNote = { tick: number; channel: number; note: number; velocity: number };
+
+function parseTrack(reader: MidiReader, end: number, notes: ParsedNote[]) {
+  let tick = 0;
+  let status = 0;
+  let tempo: number | null = null;
+  let title: string | null = null;
+
+  while (!reader.done(end)) {
+    tick += reader.varLength();
+    if (reader.peek() & 0x80) {
+      status = reader.byte();
+    } else if (status === 0) {
+      throw new Error("MIDI running status without a preceding status byte");
+    }
+
+    if (status === 0xff) {
+      const type = reader.byte();
+      const length = reader.varLength();
+      if (type === 0x51 && length === 3 && tempo === null) {
+        tempo = reader.uint(3);
+      } else if (type === 0x03 && title === null) {
+        title = reader.text(length);
+      } else {
+        reader.skip(length);
+      }
+      status = 0;
+      continue;
+    }
+    if (status === 0xf0 || status === 0xf7) {
+      reader.skip(reader.varLength());
+      status = 0;
+      continue;
+    }
+
+    const kind = status & 0xf0;
+    const first = reader.byte();
+    if (kind === 0xc0 || kind === 0xd0) continue;
+    const second = reader.byte();
+    if (kind === 0x90 && second > 0) {
+      notes.push({ tick, channel: status & 0x0f, note: first, velocity: second });
+    }
+  }
+
+  return { tempo, title };
+}
+
+/**
+ * Reads a Standard MIDI File (type 0 or 1) and quantizes its note-ons onto the pad
+ * grid. Drum channel notes go through the note map, notes on the melodic pads'
+ * channels keep their pitch, and anything else is ignored; the first tempo event sets bpm.
+ */
+export function midiToClip(
+  data: ArrayBuffer | Uint8Array,
+  { noteMap = DEFAULT_NOTE_MAP, stepsPerBar = GRID_STEPS }: MidiImportOptions = {}
+): ImportedGroove {
+  const reader = new MidiReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+  if (reader.text(4) !== "MThd") {
+    throw new Error("Not a Standard MIDI File");
+  }
+  const headerLength = reader.uint(4);
+  const format = reader.uint(2);
+  const trackCount = reader.uint(2);
+  const division = reader.uint(2);
+  reader.skip(headerLength - 6);
+  if (format > 1) {
+    throw new Error(`MIDI format ${format} is not supported`);
+  }
+  if (division & 0x8000) {
+    throw new Error("SMPTE-timed MIDI files are not supported");
+  }
+
+  const notes: ParsedNote[] = [];
+  let tempo: number | null = null;
+  let title: string | null = null;
+  for (let track = 0; track < trackCount && !reader.done(); track++) {
+    const chunk = reader.text(4);
+    const length = reader.uint(4);
+    const end = reader.position + length;
+    if (chunk !== "MTrk") {
+      reader.skip(length);
+      continue;
+    }
+    const meta = parseTrack(reader, end, notes);
+    tempo = tempo ?? meta.tempo;
+    title = title ?? meta.title;
+  }
+
+  const padForNote = new Map<number, PadId>();
+  (Object.keys(noteMap) as PadId[]).forEach((padId) => padForNote.set(noteMap[padId], padId));
+
+  const ticksPerStep = (division * BEATS_PER_BAR) / stepsPerBar;
+  const maxBars = BAR_OPTIONS[BAR_OPTIONS.length - 1];
+  const cells = new Map<string, LoopEvent>();
+  for (const note of notes) {
+    // the melodic pads' own channels carry pitches, the drum channel goes through the note map
+    const melodicPad: PadId | undefined = MELODIC_PADS[note.channel];
+    const padId = melodicPad ?? (note.channel === DRUM_CHANNEL ? padForNote.get(note.note) : undefined);
+    if (!padId) continue;
+    const tick = Math.round(note.tick / ticksPerStep);
+    if (tick >= maxBars * stepsPerBar) continue;
+    const pitch = melodicPad ? midiToNote(note.note) : undefined;
+    const key = `${padId}:${tick}:${pitch ?? ""}`;
+    const velocity = Math.round((note.velocity / 127) * 100) / 100;
+    const existing = cells.get(key);
+    if (!existing || existing.velocity < velocity) {
+      cells.set(key, pitch ? { tick, padId, velocity, pitch } : { tick, padId, velocity });
+    }
+  }
+
+  const events = [...cells.values()].sort((a, b) => a.tick - b.tick);
+  const lastTick = events.length > 0 ? events[events.length - 1].tick : 0;
+  const bars: BarCount =
+    BAR_OPTIONS.find((option) => lastTick < option * stepsPerBar) ?? maxBars;
+
+  return {
+    bpm: tempo ? Math.round(60_000_000 / tempo) : 120,
+    bars,
+    stepsPerBar,
+    events,
+    title: title?.trim() || null
+  };
+}
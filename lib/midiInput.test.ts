@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { PadId } from "@/components/AudioEngine";
+import {
+  EMPTY_MIDI_MAPPING,
+  MIDI_MAPPING_KEY,
+  MidiInputController,
+  loadMidiMapping,
+  type MidiControlTarget,
+  type MidiMapping
+} from "@/lib/midiInput";
+
+// just enough of a MIDIAccess with no devices plugged in
+const mockAccess = () => ({ inputs: new Map(), onstatechange: null }) as unknown as MIDIAccess;
+
+const mapping: MidiMapping = {
+  inputId: null,
+  notes: { 36: "kick", 38: "snare" },
+  controls: { 74: "filter" }
+};
+
+const setup = (initial: MidiMapping = mapping) => {
+  const pads: Array<[PadId, number]> = [];
+  const controls: Array<[MidiControlTarget, number]> = [];
+  const mappings: MidiMapping[] = [];
+  const controller = new MidiInputController(
+    mockAccess(),
+    {
+      onPad: (padId, velocity) => pads.push([padId, velocity]),
+      onControl: (target, value) => controls.push([target, value]),
+      onMappingChange: (next) => mappings.push(next)
+    },
+    initial
+  );
+  return { controller, pads, controls, mappings };
+};
+
+describe("MidiInputController", () => {
+  it("plays the pad mapped to a note on any channel", () => {
+    const { controller, pads } = setup();
+    controller.handleMessage(new Uint8Array([0x90, 36, 100]));
+    controller.handleMessage(new Uint8Array([0x99, 38, 64]));
+    assert.deepEqual(
+      pads.map(([padId]) => padId),
+      ["kick", "snare"]
+    );
+  });
+
+  it("scales note velocity to 0 to 1", () => {
+    const { controller, pads } = setup();
+    controller.handleMessage(new Uint8Array([0x90, 36, 127]));
+    controller.handleMessage(new Uint8Array([0x90, 36, 1]));
+    assert.deepEqual(pads, [
+      ["kick", 1],
+      ["kick", 1 / 127]
+    ]);
+  });
+
+  it("ignores unmapped notes, note-offs and note-ons at zero velocity", () => {
+    const { controller, pads } = setup();
+    controller.handleMessage(new Uint8Array([0x90, 60, 100]));
+    controller.handleMessage(new Uint8Array([0x80, 36, 100]));
+    controller.handleMessage(new Uint8Array([0x90, 36, 0]));
+    assert.deepEqual(pads, []);
+  });
+
+  it("scales mapped controller values to 0 to 1", () => {
+    const { controller, controls } = setup();
+    controller.handleMessage(new Uint8Array([0xb0, 74, 127]));
+    controller.handleMessage(new Uint8Array([0xb0, 1, 64]));
+    assert.deepEqual(controls, [["filter", 1]]);
+  });
+
+  it("learns a note, moving the pad off the note it had", () => {
+    const { controller, pads, mappings } = setup();
+    controller.learn({ kind: "pad", padId: "kick" });
+    controller.handleMessage(new Uint8Array([0x90, 48, 90]));
+    assert.deepEqual(pads, []);
+    assert.deepEqual(mappings.at(-1)?.notes, { 38: "snare", 48: "kick" });
+    assert.equal(controller.getLearnTarget(), null);
+  });
+
+  it("learns a controller", () => {
+    const { controller, mappings } = setup(EMPTY_MIDI_MAPPING);
+    controller.learn({ kind: "control", target: "reverb" });
+    controller.handleMessage(new Uint8Array([0xb0, 91, 10]));
+    assert.deepEqual(mappings.at(-1)?.controls, { 91: "reverb" });
+  });
+});
+
+describe("loadMidiMapping", () => {
+  it("drops notes and controls mapped to unknown targets", () => {
+    const stored = JSON.stringify({
+      notes: { 36: "kick", 37: "cowbell" },
+      controls: { 1: "pitch", 74: "bpm" }
+    });
+    const loaded = loadMidiMapping({ getItem: (key) => (key === MIDI_MAPPING_KEY ? stored : null) });
+    assert.deepEqual(loaded, { inputId: null, notes: { 36: "kick" }, controls: { 74: "bpm" } });
+  });
+});
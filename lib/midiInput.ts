@@ -0,0 +1,162 @@
+import { PAD_META, type PadId } from "@/components/AudioEngine";
+
+export type MidiControlTarget = "bpm" | "filter" | "reverb";
+
+export type MidiMapping = {
+  inputId: string | null;
+  notes: Record<string, PadId>;
+  controls: Record<string, MidiControlTarget>;
+};
+
+export type MidiLearnTarget =
+  | { kind: "pad"; padId: PadId }
+  | { kind: "control"; target: MidiControlTarget };
+
+export type MidiDevice = { id: string; name: string };
+
+export type MidiInputHandlers = {
+  onPad: (padId: PadId, velocity: number) => void;
+  onControl: (target: MidiControlTarget, value: number) => void;
+  onMappingChange?: (mapping: MidiMapping) => void;
+  onDevicesChange?: (devices: MidiDevice[]) => void;
+};
+
+export const MIDI_MAPPING_KEY = "pulsecanvas-midi-map";
+
+export const EMPTY_MIDI_MAPPING: MidiMapping = { inputId: null, notes: {}, controls: {} };
+
+const CONTROL_TARGETS: MidiControlTarget[] = ["bpm", "filter", "reverb"];
+
+export function loadMidiMapping(storage: Pick<Storage, "getItem"> = localStorage): MidiMapping {
+  const stored = storage.getItem(MIDI_MAPPING_KEY);
+  if (!stored) return EMPTY_MIDI_MAPPING;
+  try {
+    const parsed = JSON.parse(stored) as Partial<MidiMapping>;
+    const notes = Object.fromEntries(
+      Object.entries(parsed.notes ?? {}).filter(([, padId]) => padId in PAD_META)
+    );
+    const controls = Object.fromEntries(
+      Object.entries(parsed.controls ?? {}).filter(([, target]) =>
+        CONTROL_TARGETS.includes(target)
+      )
+    );
+    return { inputId: parsed.inputId ?? null, notes, controls };
+  } catch {
+    return EMPTY_MIDI_MAPPING;
+  }
+}
+
+export function saveMidiMapping(mapping: MidiMapping, storage: Pick<Storage, "setItem"> = localStorage) {
+  storage.setItem(MIDI_MAPPING_KEY, JSON.stringify(mapping));
+}
+
+export async function requestMidiAccess(): Promise<MIDIAccess | null> {
+  if (typeof navigator === "undefined" || typeof navigator.requestMIDIAccess !== "function") {
+    return null;
+  }
+  return navigator.requestMIDIAccess();
+}
+
+/**
+ * Routes note-on and CC messages from one Web MIDI input to pads and controls.
+ * Takes the MIDIAccess instead of requesting it so tests can hand in a mock.
+ */
+export class MidiInputController {
+  private input: MIDIInput | null = null;
+  private learning: MidiLearnTarget | null = null;
+  private readonly listener = (event: MIDIMessageEvent) => {
+    if (event.data) this.handleMessage(event.data);
+  };
+
+  constructor(
+    private readonly access: MIDIAccess,
+    private readonly handlers: MidiInputHandlers,
+    private mapping: MidiMapping = EMPTY_MIDI_MAPPING
+  ) {
+    this.access.onstatechange = () => {
+      this.handlers.onDevicesChange?.(this.listInputs());
+      if (this.mapping.inputId && !this.input) {
+        this.attach(this.mapping.inputId);
+      }
+    };
+    if (this.mapping.inputId) {
+      this.attach(this.mapping.inputId);
+    }
+  }
+
+  listInputs(): MidiDevice[] {
+    const devices: MidiDevice[] = [];
+    this.access.inputs.forEach((input) => {
+      devices.push({ id: input.id, name: input.name ?? input.id });
+    });
+    return devices;
+  }
+
+  getMapping(): MidiMapping {
+    return this.mapping;
+  }
+
+  getLearnTarget(): MidiLearnTarget | null {
+    return this.learning;
+  }
+
+  selectInput(inputId: string | null) {
+    this.attach(inputId);
+    this.updateMapping({ ...this.mapping, inputId });
+  }
+
+  learn(target: MidiLearnTarget | null) {
+    this.learning = target;
+  }
+
+  handleMessage(data: Uint8Array) {
+    const [status = 0, first = 0, second = 0] = data;
+    const kind = status & 0xf0;
+
+    if (kind === 0x90 && second > 0) {
+      if (this.learning?.kind === "pad") {
+        const { padId } = this.learning;
+        const notes = Object.fromEntries(
+          Object.entries(this.mapping.notes).filter(([, mapped]) => mapped !== padId)
+        );
+        this.learning = null;
+        this.updateMapping({ ...this.mapping, notes: { ...notes, [first]: padId } });
+        return;
+      }
+      const padId = this.mapping.notes[first];
+      if (padId) this.handlers.onPad(padId, second / 127);
+      return;
+    }
+
+    if (kind === 0xb0) {
+      if (this.learning?.kind === "control") {
+        const { target } = this.learning;
+        const controls = Object.fromEntries(
+          Object.entries(this.mapping.controls).filter(([, mapped]) => mapped !== target)
+        );
+        this.learning = null;
+        this.updateMapping({ ...this.mapping, controls: { ...controls, [first]: target } });
+        return;
+      }
+      const target = this.mapping.controls[first];
+      if (target) this.handlers.onControl(target, second / 127);
+    }
+  }
+
+  dispose() {
+    this.attach(null);
+    this.access.onstatechange = null;
+  }
+
+  private attach(inputId: string | null) {
+    if (this.input) this.input.onmidimessage = null;
+    this.input = inputId ? this.access.inputs.get(inputId) ?? null : null;
+    // assigning the handler (rather than addEventListener) implicitly opens the port
+    if (this.input) this.input.onmidimessage = this.listener;
+  }
+
+  private updateMapping(next: MidiMapping) {
+    this.mapping = next;
+    this.handlers.onMappingChange?.(next);
+  }
+}
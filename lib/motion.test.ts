@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_MOTION_OPTIONS,
+  MotionDetector,
+  detectSequence,
+  type MotionFrame,
+  type MotionZone
+} from "@/lib/motion";
+
+const WIDTH = 20;
+const HEIGHT = 20;
+
+// one zone over the whole frame keeps the coverage arithmetic simple
+const zones: MotionZone[] = [{ padId: "kick", x: 0, y: 0, width: 1, height: 1 }];
+
+/** A grey frame with `luma` wherever `lit` says so and black elsewhere. */
+const frame = (luma: number, lit: (x: number, y: number) => boolean = () => true): MotionFrame => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let i = 0; i < WIDTH * HEIGHT; i++) {
+    const value = lit(i % WIDTH, Math.floor(i / WIDTH)) ? luma : 0;
+    data.set([value, value, value, 255], i * 4);
+  }
+  return { width: WIDTH, height: HEIGHT, data } as MotionFrame;
+};
+
+const dark = frame(0);
+const bright = frame(200);
+
+describe("MotionDetector", () => {
+  it("needs two frames before anything can move", () => {
+    const detector = new MotionDetector(zones);
+    assert.deepEqual(detector.process(bright, 0), { hits: [], active: [], center: null });
+  });
+
+  it("ignores changes no bigger than the pixel threshold", () => {
+    const { pixelThreshold } = DEFAULT_MOTION_OPTIONS;
+    const faint = detectSequence(
+      [
+        { time: 0, frame: dark },
+        { time: 40, frame: frame(pixelThreshold) }
+      ],
+      zones
+    );
+    assert.deepEqual(faint, []);
+    const strong = detectSequence(
+      [
+        { time: 0, frame: dark },
+        { time: 40, frame: frame(pixelThreshold + 1) }
+      ],
+      zones
+    );
+    assert.equal(strong.length, 1);
+  });
+
+  it("fires only once a zone's moving share reaches the enter coverage", () => {
+    // 2 of 20 rows is 10%, under the 12% needed; 3 rows is 15%
+    const rows = (count: number) => frame(200, (_, y) => y < count);
+    const run = (count: number) =>
+      detectSequence(
+        [
+          { time: 0, frame: dark },
+          { time: 40, frame: rows(count) }
+        ],
+        zones
+      );
+    assert.deepEqual(run(2), []);
+    assert.equal(run(3).length, 1);
+  });
+
+  it("waits for a zone to settle before firing again", () => {
+    const hits = detectSequence(
+      [
+        { time: 0, frame: dark },
+        { time: 200, frame: bright },
+        { time: 400, frame: dark },
+        { time: 600, frame: bright },
+        { time: 700, frame: bright },
+        { time: 800, frame: dark }
+      ],
+      zones
+    );
+    // constant movement from 200 to 600 keeps the zone held; the still frame at 700 re-arms it
+    assert.deepEqual(
+      hits.map(({ time }) => time),
+      [200, 800]
+    );
+  });
+
+  it("holds a re-armed zone until the cooldown has passed", () => {
+    const { cooldown } = DEFAULT_MOTION_OPTIONS;
+    const hits = detectSequence(
+      [
+        { time: 0, frame: dark },
+        { time: 10, frame: bright },
+        { time: 20, frame: bright },
+        { time: 10 + cooldown - 1, frame: dark },
+        { time: 10 + cooldown, frame: dark },
+        { time: 10 + cooldown + 1, frame: bright }
+      ],
+      zones
+    );
+    assert.deepEqual(
+      hits.map(({ time }) => time),
+      [10, 10 + cooldown + 1]
+    );
+  });
+
+  it("hits harder for movement high in the zone", () => {
+    const hitFor = (lit: (x: number, y: number) => boolean) =>
+      detectSequence(
+        [
+          { time: 0, frame: dark },
+          { time: 40, frame: frame(200, lit) }
+        ],
+        zones
+      )[0];
+    const high = hitFor((_, y) => y < 5);
+    const low = hitFor((_, y) => y >= 15);
+    assert.ok(high.velocity > low.velocity);
+    assert.ok(low.velocity >= DEFAULT_MOTION_OPTIONS.minVelocity);
+  });
+});
@@ -0,0 +1,191 @@
+import type { PadId } from "@/components/AudioEngine";
+
+/** RGBA pixels, the shape of an ImageData, so recorded frames can be fed in without a canvas. */
+export type MotionFrame = Pick<ImageData, "width" | "height" | "data">;
+
+export type MotionZone = {
+  padId: PadId;
+  // fractions of the frame, from the top left
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type MotionHit = {
+  padId: PadId;
+  velocity: number;
+};
+
+export type MotionResult = {
+  hits: MotionHit[];
+  active: PadId[]; // zones with a hand in them, fired or not
+  center: { x: number; y: number } | null; // middle of all movement in the frame, as fractions
+};
+
+export type MotionOptions = {
+  pixelThreshold: number; // luma change (0 to 255) for a pixel to count as moving
+  enterCoverage: number; // share of a zone that has to move for a hand to count as entering it
+  exitCoverage: number; // a zone re-arms once movement drops below this share
+  cooldown: number; // ms before a zone can fire again
+  minVelocity: number;
+  minCenterShare: number; // share of the frame that has to move before there is a center
+};
+
+export const DEFAULT_MOTION_OPTIONS: MotionOptions = {
+  pixelThreshold: 32,
+  enterCoverage: 0.12,
+  exitCoverage: 0.04,
+  cooldown: 180,
+  minVelocity: 0.3,
+  minCenterShare: 0.01
+};
+
+// analysis happens on a small copy of the feed; hands are big enough to survive it
+export const MOTION_FRAME_WIDTH = 96;
+export const MOTION_FRAME_HEIGHT = 72;
+
+// a zone this full of movement counts as the fastest possible swipe
+const FULL_COVERAGE = 0.5;
+
+// drums down the left edge and melodic pads down the right, hat and fx up high where a
+// raised hand lands, so the middle of the view stays free for the performer
+export const GESTURE_ZONES: MotionZone[] = [
+  { padId: "hat", x: 0.02, y: 0.12, width: 0.2, height: 0.22 },
+  { padId: "snare", x: 0.02, y: 0.39, width: 0.2, height: 0.22 },
+  { padId: "kick", x: 0.02, y: 0.66, width: 0.2, height: 0.22 },
+  { padId: "fx", x: 0.78, y: 0.12, width: 0.2, height: 0.22 },
+  { padId: "lead", x: 0.78, y: 0.39, width: 0.2, height: 0.22 },
+  { padId: "bass", x: 0.78, y: 0.66, width: 0.2, height: 0.22 }
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Finds hands moving into pad zones by differencing consecutive frames. No model to
+ * download, so it runs offline on any device, and it only ever sees plain pixel
+ * arrays, so recorded frame sequences replay through it exactly as the camera would.
+ * A zone fires once when movement in it rises past `enterCoverage`, then waits for it
+ * to settle before it can fire again. The more of the zone moves (a faster swipe) and
+ * the higher in the zone the movement is, the harder the hit.
+ */
+export class MotionDetector {
+  private previous: Uint8Array | null = null;
+  private armed: boolean[];
+  private lastFired: number[];
+
+  constructor(
+    private readonly zones: MotionZone[] = GESTURE_ZONES,
+    private readonly options: MotionOptions = DEFAULT_MOTION_OPTIONS
+  ) {
+    this.armed = zones.map(() => true);
+    this.lastFired = zones.map(() => -Infinity);
+  }
+
+  reset() {
+    this.previous = null;
+    this.armed = this.zones.map(() => true);
+    this.lastFired = this.zones.map(() => -Infinity);
+  }
+
+  process(frame: MotionFrame, time: number): MotionResult {
+    const { width, height, data } = frame;
+    const luma = new Uint8Array(width * height);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+    }
+    const previous = this.previous;
+    this.previous = luma;
+    if (!previous || previous.length !== luma.length) return { hits: [], active: [], center: null };
+
+    const moving = new Uint8Array(luma.length);
+    let count = 0;
+    let sumX = 0;
+    let sumY = 0;
+    for (let i = 0; i < luma.length; i++) {
+      if (Math.abs(luma[i] - previous[i]) <= this.options.pixelThreshold) continue;
+      moving[i] = 1;
+      count += 1;
+      sumX += i % width;
+      sumY += Math.floor(i / width);
+    }
+    const center =
+      count >= this.options.minCenterShare * luma.length
+        ? { x: sumX / count / width, y: sumY / count / height }
+        : null;
+
+    const hits: MotionHit[] = [];
+    const active: PadId[] = [];
+    this.zones.forEach((zone, index) => {
+      const left = Math.floor(zone.x * width);
+      const top = Math.floor(zone.y * height);
+      const right = Math.min(width, Math.ceil((zone.x + zone.width) * width));
+      const bottom = Math.min(height, Math.ceil((zone.y + zone.height) * height));
+      let zoneCount = 0;
+      let zoneY = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          if (!moving[y * width + x]) continue;
+          zoneCount += 1;
+          zoneY += y;
+        }
+      }
+      const area = Math.max(1, (right - left) * (bottom - top));
+      const coverage = zoneCount / area;
+
+      if (coverage < this.options.exitCoverage) {
+        this.armed[index] = true;
+        return;
+      }
+      if (coverage < this.options.enterCoverage) return;
+      active.push(zone.padId);
+      if (!this.armed[index] || time - this.lastFired[index] < this.options.cooldown) return;
+
+      this.armed[index] = false;
+      this.lastFired[index] = time;
+      const speed = Math.min(1, coverage / FULL_COVERAGE);
+      // 1 at the top edge of the zone, 0 at the bottom
+      const lift = 1 - (zoneY / zoneCount - top) / Math.max(1, bottom - top - 1);
+      const { minVelocity } = this.options;
+      hits.push({
+        padId: zone.padId,
+        velocity: clamp(minVelocity + (1 - minVelocity) * (0.6 * speed + 0.4 * lift), minVelocity, 1)
+      });
+    });
+
+    return { hits, active, center };
+  }
+}
+
+/** Runs a recorded sequence of frames through a fresh detector and collects every hit. */
+export function detectSequence(
+  frames: Array<{ time: number; frame: MotionFrame }>,
+  zones: MotionZone[] = GESTURE_ZONES,
+  options: MotionOptions = DEFAULT_MOTION_OPTIONS
+): Array<MotionHit & { time: number }> {
+  const detector = new MotionDetector(zones, options);
+  return frames.flatMap(({ time, frame }) =>
+    detector.process(frame, time).hits.map((hit) => ({ ...hit, time }))
+  );
+}
+
+/** The centred part of a source an object-cover box of `viewAspect` (width / height) shows. */
+export function coverCrop(sourceWidth: number, sourceHeight: number, viewAspect: number) {
+  const width = sourceWidth / sourceHeight > viewAspect ? sourceHeight * viewAspect : sourceWidth;
+  const height = sourceWidth / sourceHeight > viewAspect ? sourceHeight : sourceWidth / viewAspect;
+  return { x: (sourceWidth - width) / 2, y: (sourceHeight - height) / 2, width, height };
+}
+
+/** Draws the part of the video the object-cover element shows, so zone fractions line up with the screen. */
+export function captureFrame(
+  video: HTMLVideoElement,
+  context: CanvasRenderingContext2D,
+  viewAspect: number
+): MotionFrame | null {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return null;
+  const { width, height } = context.canvas;
+  const crop = coverCrop(videoWidth, videoHeight, viewAspect);
+  context.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+}
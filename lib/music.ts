@@ -0,0 +1,41 @@
+export type NoteName = "C" | "C#" | "D" | "D#" | "E" | "F" | "F#" | "G" | "G#" | "A" | "A#" | "B";
+
+export type ScaleId = "major" | "minor" | "dorian" | "majorPentatonic" | "minorPentatonic";
+
+export const NOTE_NAMES: NoteName[] = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+export const SCALES: Record<ScaleId, { label: string; intervals: number[] }> = {
+  major: { label: "Major", intervals: [0, 2, 4, 5, 7, 9, 11] },
+  minor: { label: "Minor", intervals: [0, 2, 3, 5, 7, 8, 10] },
+  dorian: { label: "Dorian", intervals: [0, 2, 3, 5, 7, 9, 10] },
+  majorPentatonic: { label: "Major Penta", intervals: [0, 2, 4, 7, 9] },
+  minorPentatonic: { label: "Minor Penta", intervals: [0, 3, 5, 7, 10] }
+};
+
+export const DEFAULT_KEY: NoteName = "C";
+export const DEFAULT_SCALE: ScaleId = "minorPentatonic";
+
+const NATURALS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// scientific pitch, so "C4" is MIDI 60 like Tone.Frequency
+export function noteToMidi(note: string): number | null {
+  const match = /^([A-Ga-g])([#b]?)(-?\d+)$/.exec(note.trim());
+  if (!match) return null;
+  const accidental = match[2] === "#" ? 1 : match[2] === "b" ? -1 : 0;
+  return (Number(match[3]) + 1) * 12 + NATURALS[match[1].toUpperCase()] + accidental;
+}
+
+export function midiToNote(midi: number): string {
+  const rounded = Math.round(midi);
+  return `${NOTE_NAMES[((rounded % 12) + 12) % 12]}${Math.floor(rounded / 12) - 1}`;
+}
+
+/** Ascending scale degrees starting at the key's root in the given octave. */
+export function scalePitches(key: NoteName, scale: ScaleId, octave: number, count: number): string[] {
+  const root = (octave + 1) * 12 + NOTE_NAMES.indexOf(key);
+  const { intervals } = SCALES[scale];
+  return Array.from({ length: count }, (_, degree) => {
+    const octaveShift = Math.floor(degree / intervals.length) * 12;
+    return midiToNote(root + octaveShift + intervals[degree % intervals.length]);
+  });
+}
@@ -0,0 +1,162 @@
+import { DEFAULT_SKIN } from "@/lib/skins";
+
+export type ProgressStats = {
+  hits: number;
+  perfects: number;
+  bestStreak: number;
+  clipsShared: number;
+  remixes: number;
+  challenges: number;
+  bestAccuracy: number; // 0 to 1, over every finished challenge
+  battleWins: number;
+  jams: number;
+};
+
+export type AchievementId =
+  | "first-share"
+  | "remix-10"
+  | "streak-25"
+  | "streak-100"
+  | "hits-1000"
+  | "perfect-100"
+  | "challenge-90"
+  | "battle-win"
+  | "first-jam";
+
+export type Achievement = {
+  id: AchievementId;
+  name: string;
+  description: string;
+  reward: number; // points granted on unlock
+  earned: (stats: ProgressStats) => boolean;
+};
+
+export type Progress = {
+  points: number;
+  streak: number;
+  skinId: string;
+  stats: ProgressStats;
+  achievements: Partial<Record<AchievementId, number>>; // when each was unlocked
+};
+
+export const PROGRESS_KEY = "pulsecanvas-progress";
+export const STARTING_POINTS = 120;
+
+export const EMPTY_STATS: ProgressStats = {
+  hits: 0,
+  perfects: 0,
+  bestStreak: 0,
+  clipsShared: 0,
+  remixes: 0,
+  challenges: 0,
+  bestAccuracy: 0,
+  battleWins: 0,
+  jams: 0
+};
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "first-share",
+    name: "First Drop",
+    description: "Share your first clip",
+    reward: 50,
+    earned: (stats) => stats.clipsShared >= 1
+  },
+  {
+    id: "remix-10",
+    name: "Remix Machine",
+    description: "Save 10 remixes",
+    reward: 200,
+    earned: (stats) => stats.remixes >= 10
+  },
+  {
+    id: "streak-25",
+    name: "In the Pocket",
+    description: "Hit a 25-tap streak",
+    reward: 75,
+    earned: (stats) => stats.bestStreak >= 25
+  },
+  {
+    id: "streak-100",
+    name: "Locked In",
+    description: "Hit a 100-tap streak",
+    reward: 300,
+    earned: (stats) => stats.bestStreak >= 100
+  },
+  {
+    id: "hits-1000",
+    name: "Thousand Taps",
+    description: "Play 1,000 pad hits",
+    reward: 150,
+    earned: (stats) => stats.hits >= 1000
+  },
+  {
+    id: "perfect-100",
+    name: "Metronome",
+    description: "Land 100 perfect hits",
+    reward: 150,
+    earned: (stats) => stats.perfects >= 100
+  },
+  {
+    id: "challenge-90",
+    name: "Pattern Master",
+    description: "Finish a challenge with 90% accuracy",
+    reward: 200,
+    earned: (stats) => stats.bestAccuracy >= 0.9
+  },
+  {
+    id: "battle-win",
+    name: "Champion",
+    description: "Win a beat battle",
+    reward: 100,
+    earned: (stats) => stats.battleWins >= 1
+  },
+  {
+    id: "first-jam",
+    name: "Band Practice",
+    description: "Join a jam session",
+    reward: 50,
+    earned: (stats) => stats.jams >= 1
+  }
+];
+
+export const createProgress = (): Progress => ({
+  points: STARTING_POINTS,
+  streak: 0,
+  skinId: DEFAULT_SKIN.id,
+  stats: { ...EMPTY_STATS },
+  achievements: {}
+});
+
+/** Achievements the stats have earned that are not unlocked yet. */
+export const newAchievements = (stats: ProgressStats, unlocked: Progress["achievements"]) =>
+  ACHIEVEMENTS.filter((achievement) => unlocked[achievement.id] === undefined && achievement.earned(stats));
+
+// anything missing or mistyped falls back to a fresh player's value, so a progress
+// object saved before a stat existed still loads
+export function loadProgress(storage: Pick<Storage, "getItem"> = localStorage): Progress {
+  const fresh = createProgress();
+  const stored = storage.getItem(PROGRESS_KEY);
+  if (!stored) return fresh;
+  try {
+    const parsed = JSON.parse(stored) as Partial<Progress>;
+    const stats = { ...fresh.stats };
+    (Object.keys(stats) as Array<keyof ProgressStats>).forEach((key) => {
+      const value = parsed.stats?.[key];
+      if (typeof value === "number" && Number.isFinite(value)) stats[key] = value;
+    });
+    return {
+      points: typeof parsed.points === "number" ? parsed.points : fresh.points,
+      streak: typeof parsed.streak === "number" ? parsed.streak : fresh.streak,
+      skinId: typeof parsed.skinId === "string" ? parsed.skinId : fresh.skinId,
+      stats,
+      achievements: typeof parsed.achievements === "object" && parsed.achievements ? parsed.achievements : {}
+    };
+  } catch {
+    return fresh;
+  }
+}
+
+export function saveProgress(progress: Progress, storage: Pick<Storage, "setItem"> = localStorage) {
+  storage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+}
@@ -0,0 +1,357 @@
+// Minimal QR code encoder (ISO/IEC 18004, byte mode only), enough to put a share
+// link on screen without pulling in a dependency.
+
+export type QrErrorCorrection = "L" | "M";
+
+export type QrMatrix = boolean[][]; // [row][column], true is a dark module
+
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0 };
+
+// indexed by version, 1 to 40
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30
+  ],
+  M: [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28,
+    28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28
+  ]
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17,
+    18, 19, 19, 20, 21, 22, 24, 25
+  ],
+  M: [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29,
+    31, 33, 35, 37, 38, 40, 43, 45, 47, 49
+  ]
+};
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+const dataCodewords = (version: number, ecl: QrErrorCorrection) =>
+  Math.floor(rawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[ecl][version] * ERROR_CORRECTION_BLOCKS[ecl][version];
+
+// Reed-Solomon arithmetic over GF(2^8) with the QR polynomial 0x11D
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  data.forEach((byte) => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  });
+  return result;
+}
+
+function encodeData(bytes: Uint8Array, version: number, ecl: QrErrorCorrection): number[] {
+  const capacity = dataCodewords(version, ecl) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return data;
+}
+
+// splits the data into blocks, appends each block's ECC and interleaves them
+function addErrorCorrection(data: number[], version: number, ecl: QrErrorCorrection): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[ecl][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[ecl][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortLength = Math.floor(rawCodewords / blockCount);
+  const divisor = rsDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortLength - eccLength + (i < shortBlocks ? 0 : 1));
+    offset += block.length;
+    const ecc = rsRemainder(block, divisor);
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // short blocks carry a placeholder where the long ones have an extra data byte
+      if (i !== shortLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+class QrGrid {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(private readonly version: number, private readonly ecl: QrErrorCorrection) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = this.alignmentPositions();
+    const last = positions.length - 1;
+    positions.forEach((y, i) => {
+      positions.forEach((x, j) => {
+        const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+        if (!overlapsFinder) this.drawAlignment(x, y);
+      });
+    });
+
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.reserved[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  // applying the same mask twice undoes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && maskHit(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (FORMAT_BITS[this.ecl] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  penalty(): number {
+    let score = 0;
+    const lines = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map((row) => row[x]))
+    ];
+    lines.forEach((line) => {
+      let run = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run++;
+          continue;
+        }
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+      for (let i = 0; i + 11 <= line.length; i++) {
+        const window = line.slice(i, i + 11).map((dark) => (dark ? 1 : 0)).join("");
+        if (window === "10111010000" || window === "00001011101") score += 40;
+      }
+    });
+
+    let dark = 0;
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.modules[y][x]) dark++;
+        if (
+          x + 1 < this.size &&
+          y + 1 < this.size &&
+          this.modules[y][x] === this.modules[y][x + 1] &&
+          this.modules[y][x] === this.modules[y + 1][x] &&
+          this.modules[y][x] === this.modules[y + 1][x + 1]
+        ) {
+          score += 3;
+        }
+      }
+    }
+    const total = this.size * this.size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFinder(cx: number, cy: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) return [];
+    const count = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+    const result = [6];
+    for (let pos = this.size - 7; result.length < count; pos -= step) {
+      result.splice(1, 0, pos);
+    }
+    return result;
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, getBit(bits, i));
+      this.setFunction(b, a, getBit(bits, i));
+    }
+  }
+}
+
+function maskHit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/** Encodes text (as UTF-8) into the smallest QR code that holds it. */
+export function encodeQr(text: string, ecl: QrErrorCorrection = "M"): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  const headerBits = (v: number) => 4 + (v < 10 ? 8 : 16);
+  while (version <= 40 && headerBits(version) + bytes.length * 8 > dataCodewords(version, ecl) * 8) {
+    version++;
+  }
+  if (version > 40) {
+    throw new Error(`Too much data for a QR code: ${bytes.length} bytes`);
+  }
+
+  const grid = new QrGrid(version, ecl);
+  grid.drawFunctionPatterns();
+  grid.drawCodewords(addErrorCorrection(encodeData(bytes, version, ecl), version, ecl));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    grid.applyMask(mask);
+    grid.drawFormatBits(mask);
+    const penalty = grid.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    grid.applyMask(mask);
+  }
+  grid.applyMask(bestMask);
+  grid.drawFormatBits(bestMask);
+  return grid.modules;
+}
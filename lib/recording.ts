@@ -0,0 +1,131 @@
+import { coverCrop } from "@/lib/motion";
+
+export type RecordingStatus = "idle" | "countdown" | "waiting" | "recording" | "stopping";
+
+type Circle = { x: number; y: number; radius: number };
+
+/** Everything on screen that ends up in a recorded frame, in CSS pixels of the view. */
+export type PerformanceScene = {
+  width: number;
+  height: number;
+  camera: HTMLVideoElement | HTMLCanvasElement | null; // the raw feed, or the effects canvas drawing it
+  filter: string; // a CSS camera filter, baked into the frames since CSS on the element is not recorded
+  ring: Circle | null;
+  pads: Array<Circle & { label: string; color: string }>;
+  bursts: Array<{ x: number; y: number; color: string; age: number }>; // age 0 to 1 over the animation
+};
+
+// best first; browsers without any of these cannot record
+const RECORDING_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+  "video/mp4;codecs=avc1,mp4a",
+  "video/mp4"
+];
+
+export const COUNTDOWN_SECONDS = 3;
+export const RECORDING_FPS = 30;
+export const MAX_RECORDING_WIDTH = 1280;
+
+export function pickRecordingType(
+  isSupported: (type: string) => boolean = (type) =>
+    typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported(type)
+): string | null {
+  return RECORDING_TYPES.find(isSupported) ?? null;
+}
+
+export const recordingExtension = (type: string) => (type.startsWith("video/mp4") ? "mp4" : "webm");
+
+/** Paints one frame of the performance, matching what the page shows over the camera. */
+export function drawPerformanceFrame(context: CanvasRenderingContext2D, scene: PerformanceScene) {
+  const { width, height } = context.canvas;
+  const scale = width / scene.width;
+  context.save();
+  context.fillStyle = "#000";
+  context.fillRect(0, 0, width, height);
+
+  const camera = scene.camera;
+  const cameraWidth = camera instanceof HTMLVideoElement ? camera.videoWidth : camera?.width;
+  const cameraHeight = camera instanceof HTMLVideoElement ? camera.videoHeight : camera?.height;
+  if (camera && cameraWidth && cameraHeight) {
+    const crop = coverCrop(cameraWidth, cameraHeight, width / height);
+    context.filter = scene.filter;
+    context.drawImage(camera, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+    context.filter = "none";
+  }
+
+  // the same shade the page lays over the feed
+  const shade = context.createLinearGradient(0, 0, 0, height);
+  shade.addColorStop(0, "rgba(0,0,0,0.65)");
+  shade.addColorStop(0.5, "rgba(0,0,0,0.3)");
+  shade.addColorStop(1, "rgba(0,0,0,0.8)");
+  context.fillStyle = shade;
+  context.fillRect(0, 0, width, height);
+
+  context.scale(scale, scale);
+  if (scene.ring) {
+    const { x, y, radius } = scene.ring;
+    context.beginPath();
+    context.arc(x, y, radius, 0, Math.PI * 2);
+    context.fillStyle = "rgba(255,255,255,0.05)";
+    context.fill();
+    context.strokeStyle = "rgba(255,255,255,0.15)";
+    context.lineWidth = 1;
+    context.stroke();
+  }
+
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.font = "600 11px sans-serif";
+  scene.pads.forEach(({ x, y, radius, label, color }) => {
+    const glow = context.createRadialGradient(x, y, 0, x, y, radius);
+    glow.addColorStop(0, color);
+    glow.addColorStop(1, "rgba(0,0,0,0)");
+    context.beginPath();
+    context.arc(x, y, radius, 0, Math.PI * 2);
+    context.fillStyle = glow;
+    context.fill();
+    context.fillStyle = "rgba(255,255,255,0.85)";
+    context.fillText(label.toUpperCase(), x, y + radius + 10);
+  });
+
+  scene.bursts.forEach(({ x, y, color, age }) => {
+    context.globalAlpha = 0.9 * (1 - age);
+    context.beginPath();
+    context.arc(x, y, 12 * 2.2 * age, 0, Math.PI * 2);
+    context.fillStyle = color;
+    context.fill();
+  });
+  context.restore();
+}
+
+/**
+ * Records a video stream and an audio stream into one file. The caller owns both
+ * streams; stopping the recorder leaves their tracks running.
+ */
+export class PerformanceRecorder {
+  private readonly recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+
+  constructor(video: MediaStream, audio: MediaStream, readonly type: string) {
+    const stream = new MediaStream([...video.getVideoTracks(), ...audio.getAudioTracks()]);
+    this.recorder = new MediaRecorder(stream, { mimeType: type, videoBitsPerSecond: 5_000_000 });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+  }
+
+  start() {
+    this.chunks = [];
+    this.recorder.start(1000);
+  }
+
+  stop(): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      this.recorder.onstop = () => resolve(new Blob(this.chunks, { type: this.type }));
+      this.recorder.onerror = () => reject(new Error("Recording failed"));
+      this.recorder.stop();
+    });
+  }
+}
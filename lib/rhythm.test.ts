@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_CLIPS, type LoopClip } from "@/components/AudioEngine";
+import {
+  createChallenge,
+  rateGridTap,
+  rateTiming,
+  scoreChallengeTap,
+  ticksToSeconds
+} from "@/lib/rhythm";
+
+const PPQ = 192;
+const BPM = 120;
+const timing = { bpm: BPM, ppq: PPQ };
+const stepTicks = PPQ / 4;
+const secondsAsTicks = (seconds: number) => seconds * (BPM / 60) * PPQ;
+
+const clip: LoopClip = {
+  ...DEFAULT_CLIPS[0],
+  swing: 0,
+  groove: "straight",
+  events: [
+    { tick: 0, padId: "kick", velocity: 1 },
+    { tick: 4, padId: "snare", velocity: 1 },
+    { tick: 8, padId: "kick", velocity: 1 }
+  ]
+};
+
+describe("rateTiming", () => {
+  it("rates by distance either side of the beat", () => {
+    assert.equal(rateTiming(0), "perfect");
+    assert.equal(rateTiming(-0.04), "great");
+    assert.equal(rateTiming(0.08), "ok");
+    assert.equal(rateTiming(0.1), "miss");
+  });
+});
+
+describe("rateGridTap", () => {
+  it("rates a tap exactly on a step as perfect", () => {
+    const tap = rateGridTap(12 * stepTicks, { ...timing, quantize: "16n", stepsPerBar: 16 });
+    assert.deepEqual(tap, { rating: "perfect", error: 0 });
+  });
+
+  it("measures early and late taps against the nearest step", () => {
+    const tapped = 4 * stepTicks - secondsAsTicks(0.02);
+    const early = rateGridTap(tapped, { ...timing, quantize: "8n", stepsPerBar: 16 });
+    assert.equal(early.rating, "perfect");
+    assert.ok(Math.abs(early.error + 0.02) < 1e-9);
+  });
+});
+
+describe("scoreChallengeTap", () => {
+  const start = 4 * PPQ * 4;
+
+  it("rates a tap on the beat the clip plays as perfect", () => {
+    const challenge = createChallenge(clip, start, PPQ);
+    const scored = scoreChallengeTap(challenge, "kick", challenge.targets[0].ticks, timing);
+    assert.ok(scored);
+    assert.deepEqual(scored.tap, { rating: "perfect", error: 0 });
+    assert.equal(scored.missed, 0);
+    assert.equal(scored.challenge.strays, 0);
+  });
+
+  it("misses a tap that lands a lookahead late", () => {
+    const challenge = createChallenge(clip, start, PPQ);
+    const scored = scoreChallengeTap(challenge, "kick", start + secondsAsTicks(0.1), timing);
+    assert.equal(scored?.tap.rating, "miss");
+    assert.equal(scored?.challenge.strays, 1);
+  });
+
+  it("ignores taps before the count-in ends", () => {
+    const challenge = createChallenge(clip, start, PPQ);
+    assert.equal(scoreChallengeTap(challenge, "kick", start - PPQ, timing), null);
+  });
+
+  it("expires targets whose window has passed", () => {
+    const challenge = createChallenge(clip, start, PPQ);
+    const secondKick = start + 8 * stepTicks;
+    const scored = scoreChallengeTap(challenge, "kick", secondKick, timing);
+    assert.equal(scored?.tap.rating, "perfect");
+    // the first kick and the snare went by unplayed
+    assert.equal(scored?.missed, 2);
+    assert.equal(ticksToSeconds(secondKick - start, BPM, PPQ), 1);
+  });
+});
@@ -0,0 +1,159 @@
+import { clipSteps, isChannelSilenced, type LoopClip, type PadId } from "@/components/AudioEngine";
+import { eventPosition, quantizeGrid, type QuantizeResolution } from "@/lib/groove";
+
+export type TimingRating = "perfect" | "great" | "ok" | "miss";
+
+export type RatedTap = {
+  rating: TimingRating;
+  error: number; // seconds off the target, negative when early
+};
+
+type TapTiming = {
+  bpm: number;
+  ppq: number;
+};
+
+export type ChallengeTarget = {
+  padId: PadId;
+  ticks: number; // transport ticks the clip plays this hit at
+  rating: TimingRating | null; // null until it is played or its window passes
+};
+
+export type Challenge = {
+  clipId: string;
+  startTicks: number;
+  endTicks: number;
+  targets: ChallengeTarget[];
+  strays: number; // taps that matched no target, each one a miss
+};
+
+export type ChallengeResult = {
+  counts: Record<TimingRating, number>;
+  accuracy: number; // 0 to 1
+};
+
+export const TIMING_RATINGS: Record<TimingRating, { label: string; points: number; weight: number }> = {
+  perfect: { label: "Perfect", points: 10, weight: 1 },
+  great: { label: "Great", points: 6, weight: 0.75 },
+  ok: { label: "OK", points: 2, weight: 0.4 },
+  miss: { label: "Miss", points: 0, weight: 0 }
+};
+
+// widest error in seconds for each rating, and the share of a quantize slot it may
+// cover, so mashing a fine grid at a fast tempo cannot land every tap
+const TIMING_WINDOWS: Array<{ rating: Exclude<TimingRating, "miss">; seconds: number; share: number }> = [
+  { rating: "perfect", seconds: 0.025, share: 0.1 },
+  { rating: "great", seconds: 0.05, share: 0.2 },
+  { rating: "ok", seconds: 0.09, share: 0.35 }
+];
+
+const REACH = TIMING_WINDOWS[TIMING_WINDOWS.length - 1].seconds;
+
+export const CHALLENGE_PASSES = 2;
+export const CHALLENGE_BONUS = 400; // for a flawless run, scaled down by accuracy
+
+export const ticksToSeconds = (ticks: number, bpm: number, ppq: number) => (ticks / ppq) * (60 / bpm);
+
+const secondsToTicks = (seconds: number, bpm: number, ppq: number) => seconds * (bpm / 60) * ppq;
+
+export function rateTiming(error: number, slot = Infinity): TimingRating {
+  const distance = Math.abs(error);
+  const window = TIMING_WINDOWS.find(({ seconds, share }) => distance <= Math.min(seconds, share * slot));
+  return window?.rating ?? "miss";
+}
+
+/** Points for a rated tap, with the streak bonus a run of hits has always earned. */
+export const tapPoints = (rating: TimingRating, streak: number) =>
+  rating === "miss" ? 0 : TIMING_RATINGS[rating].points + Math.floor(streak / 3);
+
+/** Rates a free-play tap by its distance to the nearest quantize slot, or grid step with quantize off. */
+export function rateGridTap(
+  tapped: number,
+  { quantize, stepsPerBar, bpm, ppq }: TapTiming & { quantize: QuantizeResolution; stepsPerBar: number }
+): RatedTap {
+  const slotTicks = (quantizeGrid(quantize, stepsPerBar) ?? 1) * ((ppq * 4) / stepsPerBar);
+  const error = ticksToSeconds(tapped - Math.round(tapped / slotTicks) * slotTicks, bpm, ppq);
+  return { rating: rateTiming(error, ticksToSeconds(slotTicks, bpm, ppq)), error };
+}
+
+/** Every audible hit of `passes` loops of the clip, starting at `startTicks`. */
+export function createChallenge(
+  clip: LoopClip,
+  startTicks: number,
+  ppq: number,
+  passes = CHALLENGE_PASSES
+): Challenge {
+  const stepTicks = (ppq * 4) / clip.stepsPerBar;
+  const loopTicks = clip.bars * ppq * 4;
+  const feel = { swing: clip.swing, groove: clip.groove, totalSteps: clipSteps(clip) };
+  const audible = clip.events.filter((evt) => !isChannelSilenced(clip.mixer, evt.padId));
+  const targets = Array.from({ length: passes }, (_, pass) =>
+    audible.map((evt) => ({
+      padId: evt.padId,
+      ticks: startTicks + pass * loopTicks + eventPosition(evt, feel) * stepTicks,
+      rating: null
+    }))
+  )
+    .flat()
+    .sort((a, b) => a.ticks - b.ticks);
+  return { clipId: clip.id, startTicks, endTicks: startTicks + passes * loopTicks, targets, strays: 0 };
+}
+
+/**
+ * Matches a tap to the closest unplayed target on the same pad. Targets whose window
+ * has already passed are marked missed first and counted in `missed`; a tap with no
+ * target in reach is a stray. Taps during the count-in or after the run score null.
+ */
+export function scoreChallengeTap(
+  challenge: Challenge,
+  padId: PadId,
+  tapped: number,
+  { bpm, ppq }: TapTiming
+): { challenge: Challenge; tap: RatedTap; missed: number } | null {
+  const reach = secondsToTicks(REACH, bpm, ppq);
+  if (tapped < challenge.startTicks - reach || tapped > challenge.endTicks + reach) return null;
+  const expiresBefore = tapped - reach;
+  let missed = 0;
+  const targets = challenge.targets.map((target): ChallengeTarget => {
+    if (target.rating !== null || target.ticks >= expiresBefore) return target;
+    missed += 1;
+    return { ...target, rating: "miss" };
+  });
+
+  let best = -1;
+  targets.forEach((target, index) => {
+    if (target.padId !== padId || target.rating !== null) return;
+    if (best === -1 || Math.abs(tapped - target.ticks) < Math.abs(tapped - targets[best].ticks)) best = index;
+  });
+  const error = best === -1 ? 0 : ticksToSeconds(tapped - targets[best].ticks, bpm, ppq);
+  const rating = best === -1 ? "miss" : rateTiming(error);
+
+  const tap = { rating, error };
+  if (rating === "miss") {
+    return { challenge: { ...challenge, targets, strays: challenge.strays + 1 }, tap, missed };
+  }
+  targets[best] = { ...targets[best], rating };
+  return { challenge: { ...challenge, targets }, tap, missed };
+}
+
+/** Marks whatever was never played as missed. */
+export const finishChallenge = (challenge: Challenge): Challenge => ({
+  ...challenge,
+  targets: challenge.targets.map((target) =>
+    target.rating === null ? { ...target, rating: "miss" as const } : target
+  )
+});
+
+/** Tallies the targets rated so far; unplayed ones only count once the challenge is finished. */
+export function challengeResult(challenge: Challenge): ChallengeResult {
+  const counts: Record<TimingRating, number> = { perfect: 0, great: 0, ok: 0, miss: challenge.strays };
+  challenge.targets.forEach(({ rating }) => {
+    if (rating !== null) counts[rating] += 1;
+  });
+  const total = challenge.targets.length + challenge.strays;
+  const earned = (Object.keys(counts) as TimingRating[]).reduce(
+    (sum, rating) => sum + counts[rating] * TIMING_RATINGS[rating].weight,
+    0
+  );
+  return { counts, accuracy: total ? earned / total : 0 };
+}
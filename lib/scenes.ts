@@ -0,0 +1,48 @@
+import type { ActiveClip, ClipLevel, LoopClip } from "@/components/AudioEngine";
+import { readEmbeddedClip } from "@/lib/clipSchema";
+
+export type SceneLayer = ClipLevel & {
+  clip: LoopClip;
+};
+
+export type Scene = {
+  id: string;
+  name: string;
+  createdAt: number;
+  layers: SceneLayer[];
+};
+
+export const SCENES_KEY = "pulsecanvas-scenes";
+
+// scenes keep a snapshot of each clip so a live sketch can be recalled after it changes
+export function toSceneLayer({
+  part: _part,
+  startTicks: _startTicks,
+  volume,
+  muted,
+  ...clip
+}: ActiveClip): SceneLayer {
+  return { clip, volume, muted };
+}
+
+export function loadScenes(storage: Pick<Storage, "getItem"> = localStorage): Scene[] {
+  const stored = storage.getItem(SCENES_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored) as Scene[];
+    // layers whose clip no longer validates are left out of the scene
+    return (Array.isArray(parsed) ? parsed : []).map((scene) => ({
+      ...scene,
+      layers: (Array.isArray(scene.layers) ? scene.layers : []).flatMap((layer) => {
+        const clip = readEmbeddedClip(layer?.clip);
+        return clip ? [{ ...layer, clip }] : [];
+      })
+    }));
+  } catch {
+    return [];
+  }
+}
+
+export function saveScenes(scenes: Scene[], storage: Pick<Storage, "setItem"> = localStorage) {
+  storage.setItem(SCENES_KEY, JSON.stringify(scenes));
+}
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_CLIPS, createDefaultMixer, type LoopClip } from "@/components/AudioEngine";
+import { clipShareUrl, decodeClipToken, encodeClipToken, readSharedClip } from "@/lib/share";
+
+const mixer = createDefaultMixer();
+mixer.kick = { volume: -12.5, pan: -0.4, send: 0.25, mute: false, solo: true };
+mixer.hat = { volume: 3, pan: 1, send: 0, mute: true, solo: false };
+
+const clip: LoopClip = {
+  ...DEFAULT_CLIPS[0],
+  mixer,
+  kitId: "dusty-breaks",
+  events: [
+    { tick: 0, padId: "kick", velocity: 1 },
+    // offsets travel in 127ths of a step
+    { tick: 6, padId: "lead", velocity: 0.6, pitch: "E4", offset: -0.252 }
+  ]
+};
+
+// the fields a share link is meant to carry; ids, dates and counts are local to each copy
+const shared = ({ id: _id, createdAt: _createdAt, likes: _likes, remixes: _remixes, ...rest }: LoopClip) =>
+  rest;
+
+describe("share tokens", () => {
+  it("round-trips the clip, mixer and sample kit", () => {
+    const decoded = decodeClipToken(encodeClipToken(clip));
+    assert.deepEqual(shared(decoded), { ...shared(clip), parentId: null });
+  });
+
+  it("opens the same link as the same clip", () => {
+    const token = encodeClipToken(clip);
+    assert.equal(decodeClipToken(token).id, decodeClipToken(token).id);
+  });
+
+  it("opens format 1 links with the default mix", () => {
+    // format 1: no kit id or mixer between the synth kit and the events
+    const bytes = [1, 0x04, 0xb0, 1, 16, 0, 0, 0, 1, 55, 0xff, 0x6a, 0xc1, 1, 0x41, 0, 7];
+    bytes.push(..."default".split("").map((char) => char.charCodeAt(0)), 0, 1, 0, 3, 0, 255);
+    const token = btoa(String.fromCharCode(...bytes)).replace(/=+$/, "");
+    const decoded = decodeClipToken(token);
+    assert.deepEqual(decoded.mixer, createDefaultMixer());
+    assert.equal(decoded.kitId, null);
+    assert.deepEqual(decoded.events, [{ tick: 3, padId: "kick", velocity: 1 }]);
+  });
+
+  it("cuts long non-ASCII titles without breaking the fields after them", () => {
+    // four UTF-8 bytes and two UTF-16 units per drum, after one odd unit
+    const title = `a${"🥁".repeat(100)}`;
+    const decoded = decodeClipToken(encodeClipToken({ ...clip, title, author: "作者" }));
+    assert.ok(decoded.title.length > 1);
+    assert.ok(title.startsWith(decoded.title));
+    assert.ok(new TextEncoder().encode(decoded.title).length <= 255);
+    assert.equal(decoded.author, "作者");
+    assert.deepEqual(decoded.mixer, clip.mixer);
+    assert.deepEqual(decoded.events, clip.events);
+  });
+
+  it("keeps short emoji and CJK titles whole", () => {
+    const decoded = decodeClipToken(encodeClipToken({ ...clip, title: "夜のビート 🌙🎹" }));
+    assert.equal(decoded.title, "夜のビート 🌙🎹");
+  });
+
+  it("throws on damaged links", () => {
+    const token = encodeClipToken(clip);
+    assert.throws(() => decodeClipToken(token.slice(0, 20)), /truncated/);
+    assert.throws(() => decodeClipToken("CQ"), /unknown format/);
+  });
+
+  it("reads the clip from a page fragment", () => {
+    const url = clipShareUrl(clip, { origin: "https://example.com", pathname: "/" });
+    assert.equal(readSharedClip(new URL(url).hash)?.title, clip.title);
+    assert.equal(readSharedClip("#other=1"), null);
+  });
+});
@@ -0,0 +1,235 @@
+import { createDefaultMixer, type LoopClip, type PadId } from "@/components/AudioEngine";
+import { formatClipIssue, validateClip } from "@/lib/clipSchema";
+import { GROOVES, QUANTIZE_OPTIONS, type GrooveId } from "@/lib/groove";
+import { NOTE_NAMES, SCALES, midiToNote, noteToMidi, type ScaleId } from "@/lib/music";
+
+export const SHARE_PARAM = "clip";
+
+// format 1 links predate the mixer and sample kit, and still open with the defaults
+const SHARE_FORMAT = 2;
+
+// the binary format stores indexes into these lists, so only ever append to them
+const PADS: PadId[] = ["kick", "snare", "hat", "bass", "lead", "fx"];
+const SCALE_IDS = Object.keys(SCALES) as ScaleId[];
+const GROOVE_IDS = Object.keys(GROOVES) as GrooveId[];
+
+const MAX_TEXT = 80; // characters kept from the title, author and kit ids
+
+const MUTE_FLAG = 0x01;
+const SOLO_FLAG = 0x02;
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    this.u8(value >>> 8);
+    this.u8(value);
+  }
+
+  text(value: string) {
+    const encoder = new TextEncoder();
+    // whole code points only, so an emoji is never split, and no more bytes than a u8 length counts
+    const chars = Array.from(value).slice(0, MAX_TEXT);
+    let encoded = encoder.encode(chars.join(""));
+    while (encoded.length > 0xff) {
+      chars.pop();
+      encoded = encoder.encode(chars.join(""));
+    }
+    this.u8(encoded.length);
+    encoded.forEach((byte) => this.u8(byte));
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  u8(): number {
+    if (this.pos >= this.bytes.length) throw new Error("Shared clip link is truncated");
+    return this.bytes[this.pos++];
+  }
+
+  i8(): number {
+    const value = this.u8();
+    return value > 127 ? value - 256 : value;
+  }
+
+  u16(): number {
+    return (this.u8() << 8) | this.u8();
+  }
+
+  text(): string {
+    const length = this.u8();
+    const slice = this.bytes.slice(this.pos, this.pos + length);
+    if (slice.length < length) throw new Error("Shared clip link is truncated");
+    this.pos += length;
+    return new TextDecoder().decode(slice);
+  }
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+function fromBase64Url(token: string): Uint8Array {
+  const base64 = token.replace(/-/g, "+").replace(/_/g, "/");
+  let binary: string;
+  try {
+    binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  } catch {
+    throw new Error("Shared clip link is not valid base64url");
+  }
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+const parseColor = (color: string) => {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  return match ? parseInt(match[1], 16) : 0xff6ac1;
+};
+
+// stable across opens of the same link, so reopening it does not duplicate the clip
+const tokenId = (token: string) => {
+  let hash = 5381;
+  for (let i = 0; i < token.length; i++) hash = ((hash * 33) ^ token.charCodeAt(i)) >>> 0;
+  return `shared-${hash.toString(36)}`;
+};
+
+/** Packs the playable part of a clip (events, tempo, feel, mix, title, author) into a URL-safe token. */
+export function encodeClipToken(clip: LoopClip): string {
+  const out = new ByteWriter();
+  out.u8(SHARE_FORMAT);
+  out.u16(Math.round(clip.bpm * 10));
+  out.u8(clip.bars);
+  out.u8(clip.stepsPerBar);
+  out.u8(NOTE_NAMES.indexOf(clip.key));
+  out.u8(SCALE_IDS.indexOf(clip.scale));
+  out.u8(GROOVE_IDS.indexOf(clip.groove));
+  out.u8(QUANTIZE_OPTIONS.indexOf(clip.quantize));
+  out.u8(Math.round(clip.swing * 100));
+  const color = parseColor(clip.color);
+  out.u8(color >>> 16);
+  out.u8(color >>> 8);
+  out.u8(color);
+  out.text(clip.title);
+  out.text(clip.author);
+  out.text(clip.synthKitId);
+  out.text(clip.kitId ?? "");
+  // volume in half dB, pan and send in hundredths
+  PADS.forEach((padId) => {
+    const channel = clip.mixer[padId];
+    out.u8(Math.max(-128, Math.min(127, Math.round(channel.volume * 2))));
+    out.u8(Math.round(channel.pan * 100));
+    out.u8(Math.round(channel.send * 100));
+    out.u8((channel.mute ? MUTE_FLAG : 0) | (channel.solo ? SOLO_FLAG : 0));
+  });
+
+  out.u16(clip.events.length);
+  clip.events.forEach((evt) => {
+    const pitch = evt.pitch ? noteToMidi(evt.pitch) : null;
+    const hasOffset = evt.offset !== undefined && evt.offset !== 0;
+    out.u16(evt.tick);
+    out.u8(PADS.indexOf(evt.padId) | (hasOffset ? 0x08 : 0) | (pitch !== null ? 0x10 : 0));
+    out.u8(Math.round(evt.velocity * 255));
+    if (hasOffset) out.u8(Math.round((evt.offset as number) * 127));
+    if (pitch !== null) out.u8(pitch);
+  });
+  return toBase64Url(out.toBytes());
+}
+
+/** Unpacks a share token into a clip, throwing if it is damaged or does not validate. */
+export function decodeClipToken(token: string): LoopClip {
+  const input = new ByteReader(fromBase64Url(token));
+  const format = input.u8();
+  if (format < 1 || format > SHARE_FORMAT) {
+    throw new Error(`Shared clip link uses an unknown format (${format})`);
+  }
+  const bpm = input.u16() / 10;
+  const bars = input.u8();
+  const stepsPerBar = input.u8();
+  const key = NOTE_NAMES[input.u8()];
+  const scale = SCALE_IDS[input.u8()];
+  const groove = GROOVE_IDS[input.u8()];
+  const quantize = QUANTIZE_OPTIONS[input.u8()];
+  const swing = input.u8() / 100;
+  const color = `#${[input.u8(), input.u8(), input.u8()]
+    .map((part) => part.toString(16).padStart(2, "0"))
+    .join("")}`;
+  const title = input.text();
+  const author = input.text();
+  const synthKitId = input.text();
+  const kitId = format >= 2 ? input.text() || null : null;
+  const mixer = createDefaultMixer();
+  if (format >= 2) {
+    PADS.forEach((padId) => {
+      const volume = input.i8() / 2;
+      const pan = input.i8() / 100;
+      const send = input.u8() / 100;
+      const flags = input.u8();
+      mixer[padId] = { volume, pan, send, mute: (flags & MUTE_FLAG) !== 0, solo: (flags & SOLO_FLAG) !== 0 };
+    });
+  }
+
+  const events = Array.from({ length: input.u16() }, () => {
+    const tick = input.u16();
+    const flags = input.u8();
+    const velocity = Math.round((input.u8() / 255) * 100) / 100;
+    const offset = flags & 0x08 ? Math.round((input.i8() / 127) * 1000) / 1000 : undefined;
+    const pitch = flags & 0x10 ? midiToNote(input.u8()) : undefined;
+    return {
+      tick,
+      padId: PADS[flags & 0x07],
+      velocity,
+      ...(offset !== undefined && { offset }),
+      ...(pitch !== undefined && { pitch })
+    };
+  });
+
+  const { clip, issues } = validateClip({
+    id: tokenId(token),
+    title,
+    author,
+    bpm,
+    bars,
+    stepsPerBar,
+    key,
+    scale,
+    mixer,
+    kitId,
+    synthKitId,
+    swing,
+    groove,
+    quantize,
+    color,
+    createdAt: Date.now(),
+    events,
+    likes: 0,
+    remixes: 0,
+    parentId: null
+  });
+  if (!clip) {
+    throw new Error(`Shared clip link is invalid. ${formatClipIssue(issues[0])}`);
+  }
+  return clip;
+}
+
+/** The current page with the clip packed into the fragment, so it never reaches a server. */
+export function clipShareUrl(clip: LoopClip, location: Pick<Location, "origin" | "pathname">): string {
+  return `${location.origin}${location.pathname}#${SHARE_PARAM}=${encodeClipToken(clip)}`;
+}
+
+/** The shared clip in a URL fragment, null when the fragment holds none. */
+export function readSharedClip(hash: string): LoopClip | null {
+  const token = new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_PARAM);
+  return token ? decodeClipToken(token) : null;
+}
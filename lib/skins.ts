@@ -0,0 +1,55 @@
+export type Skin = {
+  id: string;
+  name: string;
+  threshold: number; // points needed to unlock
+  ring: string; // classes for the pad ring's outer glow and border
+  face: string; // classes for the disc behind the pads
+  glow: string; // classes for the light washing over the camera feed
+  bursts: string[]; // colours a pad hit can burst in
+};
+
+// full class strings, so Tailwind picks them up from this file
+export const SKINS: Skin[] = [
+  {
+    id: "aurora",
+    name: "Aurora Bloom",
+    threshold: 0,
+    ring: "border-white/10 shadow-[0_0_120px_rgba(255,106,193,0.35)]",
+    face: "bg-grid-glow",
+    glow: "bg-[radial-gradient(circle_at_50%_40%,rgba(255,106,193,0.12),transparent_60%)]",
+    bursts: ["#ff6ac1", "#5ee7ff", "#ffd166", "#9d4edd", "#f72585", "#4cc9f0"]
+  },
+  {
+    id: "nebula",
+    name: "Nebula Nova",
+    threshold: 400,
+    ring: "border-neo-purple/40 shadow-[0_0_140px_rgba(157,78,221,0.5)]",
+    face: "bg-[radial-gradient(circle_at_center,rgba(157,78,221,0.55),rgba(30,20,80,0.4)_55%,transparent_75%)]",
+    glow: "bg-[radial-gradient(circle_at_30%_20%,rgba(157,78,221,0.3),transparent_55%),radial-gradient(circle_at_75%_80%,rgba(76,201,240,0.2),transparent_50%)]",
+    bursts: ["#9d4edd", "#7b2cbf", "#4cc9f0", "#c77dff"]
+  },
+  {
+    id: "nova",
+    name: "Nova Prism",
+    threshold: 800,
+    ring: "border-neo-yellow/40 shadow-[0_0_140px_rgba(255,209,102,0.45)]",
+    face: "bg-[conic-gradient(from_90deg,rgba(255,209,102,0.4),rgba(94,231,255,0.35),rgba(255,106,193,0.4),rgba(157,78,221,0.35),rgba(255,209,102,0.4))]",
+    glow: "bg-[radial-gradient(circle_at_50%_35%,rgba(255,209,102,0.22),transparent_60%)]",
+    bursts: ["#ffd166", "#ffffff", "#5ee7ff", "#ff6ac1"]
+  },
+  {
+    id: "hyper",
+    name: "Hyper Flux",
+    threshold: 1500,
+    ring: "border-neo-cyan/60 shadow-[0_0_160px_rgba(94,231,255,0.6)]",
+    face: "bg-[repeating-conic-gradient(from_0deg,rgba(94,231,255,0.45)_0deg_15deg,rgba(16,185,129,0.2)_15deg_30deg)]",
+    glow: "bg-[radial-gradient(circle_at_50%_50%,rgba(94,231,255,0.28),transparent_55%),radial-gradient(circle_at_50%_100%,rgba(16,185,129,0.25),transparent_45%)]",
+    bursts: ["#5ee7ff", "#10b981", "#a3ff12", "#ffffff"]
+  }
+];
+
+export const DEFAULT_SKIN = SKINS[0];
+
+/** The skin to show: the chosen one while it is unlocked, otherwise the default. */
+export const resolveSkin = (id: string, points: number) =>
+  SKINS.find((skin) => skin.id === id && points >= skin.threshold) ?? DEFAULT_SKIN;
@@ -0,0 +1,120 @@
+import type { LoopClip, PadId } from "@/components/AudioEngine";
+import { readEmbeddedClip } from "@/lib/clipSchema";
+import { eventPosition } from "@/lib/groove";
+
+export type SongSection = {
+  id: string;
+  clip: LoopClip;
+  repeats: number;
+  bpm: number;
+  mutes: PadId[]; // pads silenced for this section only
+};
+
+export type Song = {
+  title: string;
+  sections: SongSection[];
+};
+
+export type SongMarker = {
+  sectionId: string;
+  ticks: number;
+  seconds: number;
+  bpm: number;
+};
+
+export type SongHit = {
+  ticks: number;
+  seconds: number;
+  padId: PadId;
+  velocity: number;
+  pitch?: string;
+};
+
+export type SongTimeline = {
+  markers: SongMarker[];
+  hits: SongHit[];
+  ticks: number;
+  seconds: number;
+};
+
+export const SONG_KEY = "pulsecanvas-song";
+export const MAX_REPEATS = 16;
+
+export const createSong = (): Song => ({ title: "Untitled Song", sections: [] });
+
+export const createSection = (id: string, clip: LoopClip): SongSection => ({
+  id,
+  clip,
+  repeats: 1,
+  bpm: clip.bpm,
+  mutes: []
+});
+
+export const sectionBars = (section: SongSection) => section.clip.bars * section.repeats;
+
+export const songBars = (song: Song) =>
+  song.sections.reduce((total, section) => total + sectionBars(section), 0);
+
+export const songSeconds = (song: Song) =>
+  song.sections.reduce((total, section) => total + (sectionBars(section) * 4 * 60) / section.bpm, 0);
+
+/**
+ * Lays every section out end to end in 4/4. Positions are given both in transport
+ * ticks, which stay on the bar lines across tempo changes, and in seconds.
+ */
+export function songTimeline(song: Song, ppq: number): SongTimeline {
+  const barTicks = ppq * 4;
+  const markers: SongMarker[] = [];
+  const hits: SongHit[] = [];
+  let ticks = 0;
+  let seconds = 0;
+
+  song.sections.forEach((section) => {
+    const { clip } = section;
+    const totalSteps = clip.bars * clip.stepsPerBar;
+    const stepTicks = barTicks / clip.stepsPerBar;
+    const tickSeconds = 60 / section.bpm / ppq;
+    const feel = { swing: clip.swing, groove: clip.groove, totalSteps };
+    markers.push({ sectionId: section.id, ticks, seconds, bpm: section.bpm });
+
+    for (let repeat = 0; repeat < section.repeats; repeat++) {
+      clip.events.forEach((evt) => {
+        if (section.mutes.includes(evt.padId)) return;
+        const at = (repeat * totalSteps + eventPosition(evt, feel)) * stepTicks;
+        hits.push({
+          ticks: ticks + at,
+          seconds: seconds + at * tickSeconds,
+          padId: evt.padId,
+          velocity: evt.velocity,
+          pitch: evt.pitch
+        });
+      });
+    }
+
+    const length = sectionBars(section) * barTicks;
+    ticks += length;
+    seconds += length * tickSeconds;
+  });
+
+  return { markers, hits: hits.sort((a, b) => a.ticks - b.ticks), ticks, seconds };
+}
+
+export function loadSong(storage: Pick<Storage, "getItem"> = localStorage): Song {
+  const stored = storage.getItem(SONG_KEY);
+  if (!stored) return createSong();
+  try {
+    const parsed = JSON.parse(stored) as Partial<Song>;
+    // a section whose clip no longer validates is dropped rather than breaking playback
+    const sections = (Array.isArray(parsed.sections) ? parsed.sections : []).flatMap((section) => {
+      const clip = readEmbeddedClip(section?.clip);
+      return clip ? [{ ...section, clip }] : [];
+    });
+    return { title: typeof parsed.title === "string" ? parsed.title : createSong().title, sections };
+  } catch {
+    return createSong();
+  }
+}
+
+export function saveSong(song: Song, storage: Pick<Storage, "setItem"> = localStorage) {
+  storage.setItem(SONG_KEY, JSON.stringify(song));
+}
@@ -0,0 +1,341 @@
+import type { PadId } from "@/components/AudioEngine";
+
+export type OscillatorShape = "sine" | "triangle" | "square" | "sawtooth";
+
+export type NoiseColor = "white" | "pink" | "brown";
+
+export type EnvelopeSettings = {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+};
+
+type VoiceCommon = {
+  note: string; // what the pad plays when a hit carries no pitch
+  length: string; // note length, as a Tone time value
+  level: number; // 0 to 1, scales every hit
+  envelope: EnvelopeSettings;
+};
+
+export type VoiceSettings = VoiceCommon &
+  (
+    | { type: "membrane"; octaves: number; pitchDecay: number }
+    | { type: "noise"; noise: NoiseColor }
+    | { type: "metal"; harmonicity: number; modulationIndex: number; resonance: number }
+    | { type: "mono"; oscillator: OscillatorShape; filterQ: number }
+    | { type: "synth"; oscillator: OscillatorShape }
+    | { type: "fm"; oscillator: OscillatorShape; harmonicity: number; modulationIndex: number }
+  );
+
+export type VoiceType = VoiceSettings["type"];
+
+export type SynthKit = {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  voices: Record<PadId, VoiceSettings>;
+};
+
+export const VOICE_TYPES: Record<VoiceType, string> = {
+  membrane: "Membrane",
+  noise: "Noise",
+  metal: "Metal",
+  mono: "Mono",
+  synth: "Synth",
+  fm: "FM"
+};
+
+export const OSCILLATOR_SHAPES: OscillatorShape[] = ["sine", "triangle", "square", "sawtooth"];
+export const NOISE_COLORS: NoiseColor[] = ["white", "pink", "brown"];
+
+const adsr = (attack: number, decay: number, sustain: number, release: number): EnvelopeSettings => ({
+  attack,
+  decay,
+  sustain,
+  release
+});
+
+/** Switches a voice to another type, keeping its note, length, level and envelope. */
+export function changeVoiceType(voice: VoiceSettings, type: VoiceType): VoiceSettings {
+  const { note, length, level, envelope } = voice;
+  const common: VoiceCommon = { note, length, level, envelope };
+  switch (type) {
+    case "membrane":
+      return { ...common, type, octaves: 3, pitchDecay: 0.05 };
+    case "noise":
+      return { ...common, type, noise: "pink" };
+    case "metal":
+      return { ...common, type, harmonicity: 5.1, modulationIndex: 32, resonance: 4000 };
+    case "mono":
+      return { ...common, type, oscillator: "sawtooth", filterQ: 4 };
+    case "synth":
+      return { ...common, type, oscillator: "triangle" };
+    case "fm":
+      return { ...common, type, oscillator: "sine", harmonicity: 1.5, modulationIndex: 12 };
+  }
+}
+
+export const DEFAULT_SYNTH_KIT_ID = "classic";
+
+export const BUILT_IN_SYNTH_KITS: SynthKit[] = [
+  {
+    id: DEFAULT_SYNTH_KIT_ID,
+    name: "Classic",
+    builtIn: true,
+    voices: {
+      kick: {
+        type: "membrane",
+        note: "C1",
+        length: "8n",
+        level: 1,
+        envelope: adsr(0.001, 0.5, 0.01, 0.2),
+        octaves: 3,
+        pitchDecay: 0.05
+      },
+      snare: {
+        type: "noise",
+        note: "C4",
+        length: "8n",
+        level: 1,
+        envelope: adsr(0.001, 0.24, 0, 0.1),
+        noise: "pink"
+      },
+      hat: {
+        type: "metal",
+        note: "G3",
+        length: "16n",
+        level: 1,
+        envelope: adsr(0.001, 0.3, 0, 0.4),
+        harmonicity: 5.1,
+        modulationIndex: 32,
+        resonance: 4000
+      },
+      bass: {
+        type: "mono",
+        note: "C2",
+        length: "8n",
+        level: 0.9,
+        envelope: adsr(0.02, 0.3, 0.5, 0.7),
+        oscillator: "sawtooth",
+        filterQ: 4
+      },
+      lead: {
+        type: "synth",
+        note: "C4",
+        length: "8n",
+        level: 0.8,
+        envelope: adsr(0.04, 0.3, 0.6, 0.4),
+        oscillator: "triangle"
+      },
+      fx: {
+        type: "fm",
+        note: "G4",
+        length: "8n",
+        level: 0.6,
+        envelope: adsr(0.002, 0.2, 0.4, 0.5),
+        oscillator: "sine",
+        harmonicity: 1.5,
+        modulationIndex: 12
+      }
+    }
+  },
+  {
+    id: "808",
+    name: "808",
+    builtIn: true,
+    voices: {
+      kick: {
+        type: "membrane",
+        note: "A0",
+        length: "4n",
+        level: 1,
+        envelope: adsr(0.001, 0.9, 0.02, 1.2),
+        octaves: 6,
+        pitchDecay: 0.08
+      },
+      snare: {
+        type: "noise",
+        note: "C4",
+        length: "16n",
+        level: 0.9,
+        envelope: adsr(0.001, 0.18, 0, 0.1),
+        noise: "white"
+      },
+      hat: {
+        type: "metal",
+        note: "G3",
+        length: "32n",
+        level: 0.8,
+        envelope: adsr(0.001, 0.08, 0, 0.05),
+        harmonicity: 5.1,
+        modulationIndex: 40,
+        resonance: 6000
+      },
+      bass: {
+        type: "synth",
+        note: "C2",
+        length: "4n",
+        level: 1,
+        envelope: adsr(0.005, 0.6, 0.4, 0.8),
+        oscillator: "sine"
+      },
+      lead: {
+        type: "synth",
+        note: "C4",
+        length: "8n",
+        level: 0.6,
+        envelope: adsr(0.01, 0.2, 0.5, 0.3),
+        oscillator: "square"
+      },
+      fx: {
+        type: "fm",
+        note: "G4",
+        length: "8n",
+        level: 0.5,
+        envelope: adsr(0.01, 0.3, 0.3, 0.8),
+        oscillator: "sine",
+        harmonicity: 3,
+        modulationIndex: 8
+      }
+    }
+  },
+  {
+    id: "lofi",
+    name: "Lo-fi",
+    builtIn: true,
+    voices: {
+      kick: {
+        type: "membrane",
+        note: "D1",
+        length: "8n",
+        level: 0.9,
+        envelope: adsr(0.002, 0.3, 0.01, 0.2),
+        octaves: 2,
+        pitchDecay: 0.03
+      },
+      snare: {
+        type: "noise",
+        note: "C4",
+        length: "8n",
+        level: 0.7,
+        envelope: adsr(0.005, 0.3, 0, 0.2),
+        noise: "brown"
+      },
+      hat: {
+        type: "metal",
+        note: "G3",
+        length: "16n",
+        level: 0.6,
+        envelope: adsr(0.002, 0.15, 0, 0.1),
+        harmonicity: 3.1,
+        modulationIndex: 16,
+        resonance: 2500
+      },
+      bass: {
+        type: "mono",
+        note: "C2",
+        length: "8n",
+        level: 0.8,
+        envelope: adsr(0.03, 0.4, 0.4, 0.5),
+        oscillator: "triangle",
+        filterQ: 2
+      },
+      lead: {
+        type: "synth",
+        note: "C4",
+        length: "4n",
+        level: 0.7,
+        envelope: adsr(0.12, 0.4, 0.5, 1),
+        oscillator: "sine"
+      },
+      fx: {
+        type: "fm",
+        note: "G4",
+        length: "4n",
+        level: 0.5,
+        envelope: adsr(0.2, 0.4, 0.5, 1.2),
+        oscillator: "triangle",
+        harmonicity: 0.5,
+        modulationIndex: 4
+      }
+    }
+  },
+  {
+    id: "chiptune",
+    name: "Chiptune",
+    builtIn: true,
+    voices: {
+      kick: {
+        type: "membrane",
+        note: "C1",
+        length: "16n",
+        level: 1,
+        envelope: adsr(0.001, 0.2, 0, 0.05),
+        octaves: 4,
+        pitchDecay: 0.02
+      },
+      snare: {
+        type: "noise",
+        note: "C4",
+        length: "16n",
+        level: 0.8,
+        envelope: adsr(0.001, 0.1, 0, 0.02),
+        noise: "white"
+      },
+      hat: {
+        type: "noise",
+        note: "C4",
+        length: "32n",
+        level: 0.5,
+        envelope: adsr(0.001, 0.03, 0, 0.01),
+        noise: "white"
+      },
+      bass: {
+        type: "synth",
+        note: "C2",
+        length: "8n",
+        level: 0.8,
+        envelope: adsr(0.001, 0.1, 0.8, 0.05),
+        oscillator: "square"
+      },
+      lead: {
+        type: "synth",
+        note: "C4",
+        length: "8n",
+        level: 0.6,
+        envelope: adsr(0.001, 0.1, 0.7, 0.05),
+        oscillator: "square"
+      },
+      fx: {
+        type: "fm",
+        note: "G4",
+        length: "16n",
+        level: 0.5,
+        envelope: adsr(0.001, 0.1, 0.5, 0.05),
+        oscillator: "square",
+        harmonicity: 2,
+        modulationIndex: 20
+      }
+    }
+  }
+];
+
+export const USER_SYNTH_KITS_KEY = "pulsecanvas-synth-kits";
+
+export const findSynthKit = (kits: SynthKit[], id: string | undefined) =>
+  kits.find((kit) => kit.id === id) ?? BUILT_IN_SYNTH_KITS[0];
+
+export function loadUserSynthKits(storage: Pick<Storage, "getItem"> = localStorage): SynthKit[] {
+  const stored = storage.getItem(USER_SYNTH_KITS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored) as SynthKit[];
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserSynthKits(kits: SynthKit[], storage: Pick<Storage, "setItem"> = localStorage) {
+  storage.setItem(USER_SYNTH_KITS_KEY, JSON.stringify(kits));
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { encodeWav } from "@/lib/wav";
+
+const ascii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+// reads a little-endian signed 24-bit sample
+const int24 = (view: DataView, offset: number) => {
+  const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+  return value & 0x800000 ? value - 0x1000000 : value;
+};
+
+describe("encodeWav", () => {
+  it("writes a PCM RIFF header for the channels and bit depth", () => {
+    const left = new Float32Array(10);
+    const right = new Float32Array(10);
+    const view = new DataView(encodeWav([left, right], 48000, 24));
+    const dataSize = 10 * 2 * 3;
+
+    assert.equal(view.byteLength, 44 + dataSize);
+    assert.equal(ascii(view, 0, 4), "RIFF");
+    assert.equal(view.getUint32(4, true), 36 + dataSize);
+    assert.equal(ascii(view, 8, 8), "WAVEfmt ");
+    assert.equal(view.getUint32(16, true), 16);
+    assert.equal(view.getUint16(20, true), 1);
+    assert.equal(view.getUint16(22, true), 2);
+    assert.equal(view.getUint32(24, true), 48000);
+    assert.equal(view.getUint32(28, true), 48000 * 6);
+    assert.equal(view.getUint16(32, true), 6);
+    assert.equal(view.getUint16(34, true), 24);
+    assert.equal(ascii(view, 36, 4), "data");
+    assert.equal(view.getUint32(40, true), dataSize);
+  });
+
+  it("interleaves 16-bit samples frame by frame", () => {
+    const left = new Float32Array([0, 1, -1]);
+    const right = new Float32Array([0.5, -0.5, 0]);
+    const view = new DataView(encodeWav([left, right], 44100));
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    assert.deepEqual(samples, [0, 16384, 32767, -16384, -32768, 0]);
+  });
+
+  it("clips samples outside -1 to 1", () => {
+    const view = new DataView(encodeWav([new Float32Array([2, -3])], 44100));
+    assert.equal(view.getInt16(44, true), 32767);
+    assert.equal(view.getInt16(46, true), -32768);
+  });
+
+  it("packs 24-bit samples into three bytes", () => {
+    const view = new DataView(encodeWav([new Float32Array([1, -1, 0.25])], 44100, 24));
+    assert.deepEqual([int24(view, 44), int24(view, 47), int24(view, 50)], [8388607, -8388608, 2097152]);
+  });
+
+  it("encodes an empty render as a bare header", () => {
+    const view = new DataView(encodeWav([], 44100));
+    assert.equal(view.byteLength, 44);
+    assert.equal(view.getUint32(40, true), 0);
+  });
+});
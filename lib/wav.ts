@@ -0,0 +1,59 @@
+export type WavBitDepth = 16 | 24;
+
+const HEADER_BYTES = 44;
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Encodes planar float samples (-1..1) as an interleaved PCM RIFF/WAVE file.
+ * Pure data in, bytes out, so it runs anywhere an ArrayBuffer does.
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: WavBitDepth = 16
+): ArrayBuffer {
+  const bytesPerSample = bitDepth / 8;
+  const frameCount = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+  const buffer = new ArrayBuffer(HEADER_BYTES + dataSize);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(view, 8, "WAVE");
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeAscii(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const maxPositive = 2 ** (bitDepth - 1) - 1;
+  let offset = HEADER_BYTES;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[frame] ?? 0));
+      const value = Math.round(sample < 0 ? sample * (maxPositive + 1) : sample * maxPositive);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
@@ -0,0 +1,204 @@
+// Relay for jam sessions: every browser in a room sends its hits, tempo and pattern
+// here and the relay passes them on to the rest of the room. It also answers clock
+// pings so each browser can work out the offset to the relay's clock.
+//
+//   node server/jamRelay.mjs [port]      (defaults to $JAM_PORT, then 3001)
+//
+// Plain Node with no dependencies, so it speaks just enough of RFC 6455 for
+// browser WebSocket clients: text frames, fragmentation, ping and close.
+
+import { createHash, randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.argv[2] ?? process.env.JAM_PORT ?? 3001);
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_MESSAGE = 1 << 20;
+
+// the latest of these is replayed to anyone who joins later, and echoed back to its
+// sender too, so the whole room settles on one transport and one pattern
+const RETAINED = new Set(["transport", "pattern"]);
+const RELAYED = new Set(["hit", "transport", "pattern"]);
+
+// room name -> { name, peers: Map of peer id -> Peer, retained: Map of type -> message }
+const rooms = new Map();
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  const header =
+    length < 126 ? Buffer.alloc(2) : length < 0x10000 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 0x10000) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+class Peer {
+  constructor(socket) {
+    this.socket = socket;
+    this.id = randomUUID();
+    this.name = "Guest";
+    this.color = "#5ee7ff";
+    this.room = null;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    socket.on("data", (chunk) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.readFrames();
+    });
+    socket.on("close", () => leave(this));
+    socket.on("error", () => socket.destroy());
+  }
+
+  send(message) {
+    if (!this.socket.writable) return;
+    this.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+
+  close(code = 1000) {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    if (this.socket.writable) this.socket.end(encodeFrame(0x8, payload));
+  }
+
+  readFrames() {
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // browsers always mask what they send; anything else is not a browser
+      if (!masked || length > MAX_MESSAGE) {
+        this.close(1002);
+        return;
+      }
+      if (this.buffer.length < offset + 4 + length) return;
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) {
+        this.close();
+        return;
+      }
+      if (opcode === 0x9) {
+        this.socket.write(encodeFrame(0xa, payload));
+        continue;
+      }
+      if (opcode === 0x1 || opcode === 0x0) {
+        this.fragments.push(payload);
+        if (!fin) continue;
+        const text = Buffer.concat(this.fragments).toString("utf8");
+        this.fragments = [];
+        try {
+          handleMessage(this, JSON.parse(text));
+        } catch (err) {
+          console.error(err);
+        }
+      }
+    }
+  }
+
+  toJSON() {
+    return { id: this.id, name: this.name, color: this.color };
+  }
+}
+
+function broadcast(room, message, except = null) {
+  room.peers.forEach((peer) => {
+    if (peer !== except) peer.send(message);
+  });
+}
+
+function leave(peer) {
+  const room = peer.room && rooms.get(peer.room);
+  peer.room = null;
+  if (!room) return;
+  room.peers.delete(peer.id);
+  if (room.peers.size === 0) {
+    rooms.delete(room.name);
+    return;
+  }
+  broadcast(room, { type: "presence", peers: [...room.peers.values()] });
+}
+
+function handleMessage(peer, message) {
+  if (typeof message !== "object" || message === null) return;
+
+  if (message.type === "ping") {
+    peer.send({ type: "pong", sentAt: message.sentAt, serverTime: Date.now() });
+    return;
+  }
+
+  if (message.type === "join") {
+    leave(peer);
+    const name = String(message.room || "main").slice(0, 40);
+    const room = rooms.get(name) ?? { name, peers: new Map(), retained: new Map() };
+    rooms.set(name, room);
+    peer.name = String(message.name || "Guest").slice(0, 40);
+    peer.color = typeof message.color === "string" ? message.color : peer.color;
+    peer.room = name;
+    room.peers.set(peer.id, peer);
+    peer.send({
+      type: "welcome",
+      id: peer.id,
+      peers: [...room.peers.values()],
+      retained: [...room.retained.values()]
+    });
+    broadcast(room, { type: "presence", peers: [...room.peers.values()] }, peer);
+    return;
+  }
+
+  const room = peer.room && rooms.get(peer.room);
+  if (!room || !RELAYED.has(message.type)) return;
+  const relayed = { ...message, from: peer.id };
+  if (RETAINED.has(message.type)) {
+    room.retained.set(message.type, relayed);
+    broadcast(room, relayed);
+  } else {
+    broadcast(room, relayed, peer);
+  }
+}
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end("PulseCanvas jam relay: connect with a WebSocket\n");
+});
+
+server.on("upgrade", (request, socket) => {
+  const key = request.headers["sec-websocket-key"];
+  if (request.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  const accept = createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+  new Peer(socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`Jam relay listening on ws://localhost:${PORT}`);
+});